@@ -3,6 +3,7 @@ import {
   BaseMessage,
   AIMessage,
   AIMessageChunk,
+  UsageMetadata,
 } from "@langchain/core/messages";
 import {
   ChatResult,
@@ -20,6 +21,7 @@ import { SystemMessage } from "@langchain/core/messages";
 import {
   ChatHerokuFields,
   ChatHerokuCallOptions,
+  ChatHerokuThinkingConfig,
   HerokuChatCompletionRequest,
   HerokuChatCompletionResponse,
   HerokuChatCompletionStreamResponse,
@@ -30,10 +32,17 @@ import {
   getHerokuConfigOptions,
   langchainMessagesToHerokuMessages,
   langchainToolsToHerokuTools,
-  HerokuApiError,
+  HerokuErrorDetails,
+  HerokuStreamError,
+  getHerokuRequestId,
+  summarizeHerokuRequest,
   parseHerokuSSE,
+  herokuUsageToUsageMetadata,
+  thinkingToHerokuExtendedThinking,
+  withReasoningContent,
 } from "./common.js";
 import { HerokuModel } from "./model.js";
+import { recordHerokuResponse, recordHerokuSpanError } from "./tracing.js";
 
 /**
  * Metadata about the implicit structured output tool ChatHeroku generates when
@@ -220,6 +229,7 @@ export interface StructuredOutputMethodParams<
 export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
   // Chat-specific parameters
   protected maxTokens?: number;
+  protected thinking?: boolean | ChatHerokuThinkingConfig;
   private structuredOutputTool?: StructuredOutputToolMetadata;
 
   /**
@@ -351,12 +361,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
         content: `Returning structured response: ${JSON.stringify(structuredResult)}`,
       };
     } catch (error) {
-      if (process.env.DEBUG_CHAT_HEROKU) {
-        console.warn(
-          "[ChatHeroku] Structured output fallback failed:",
-          (error as Error).message,
-        );
-      }
+      this.log.debug(
+        { error: (error as Error).message },
+        "Structured output fallback failed",
+      );
       return null;
     }
   }
@@ -386,6 +394,7 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
   constructor(fields?: ChatHerokuFields) {
     super(fields ?? {});
     this.maxTokens = fields?.maxTokens;
+    this.thinking = fields?.thinking;
     this.applyResponseFormatModelAlias();
   }
 
@@ -440,22 +449,17 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
     tools: (StructuredTool | Record<string, any>)[],
     config?: Partial<ChatHerokuCallOptions>,
   ): ChatHeroku {
-    if (process.env.DEBUG_CHAT_HEROKU) {
-      console.log(
-        "[ChatHeroku] bindTools received:",
-        tools.map((tool) =>
+    this.log.debug(
+      {
+        tools: tools.map((tool) =>
           tool instanceof StructuredTool
             ? tool.name
             : ((tool as any)?.function?.name ?? "unknown"),
         ),
-      );
-      if (config && Object.keys(config).length > 0) {
-        console.log(
-          "[ChatHeroku] bindTools config:",
-          JSON.stringify(config, null, 2),
-        );
-      }
-    }
+        config: config && Object.keys(config).length > 0 ? config : undefined,
+      },
+      "bindTools received",
+    );
     const structuredOutputMetadata =
       this.extractStructuredOutputMetadata(tools);
     const herokuTools = langchainToolsToHerokuTools(tools);
@@ -471,7 +475,16 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       apiUrl: this.apiUrl,
       maxRetries: this.maxRetries,
       timeout: this.timeout,
+      streamIdleTimeout: this.streamIdleTimeout,
       streaming: this.streaming,
+      thinking: this.thinking,
+      fetch: this.fetchImpl,
+      defaultHeaders: this.defaultHeaders,
+      retryableStatusCodes: this.retryableStatusCodes,
+      transportHooks: this.transportHooks,
+      tracer: this.tracer,
+      logger: this.logger,
+      logLevel: this.logLevel,
       additionalKwargs: this.additionalKwargs,
     });
     boundInstance.structuredOutputTool = structuredOutputMetadata;
@@ -531,6 +544,9 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       stream: this.streaming,
       top_p: this.topP,
       ...this.additionalKwargs,
+      extended_thinking:
+        thinkingToHerokuExtendedThinking(this.thinking) ??
+        this.additionalKwargs?.extended_thinking,
     };
 
     let runtimeParams: Partial<HerokuChatCompletionRequest> = {};
@@ -546,13 +562,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       if (options.tools && options.tools.length > 0) {
         runtimeParams.tools = langchainToolsToHerokuTools(options.tools);
 
-        // Debug logging for tool binding
-        if (process.env.DEBUG_TOOLS) {
-          console.log(
-            "[ChatHeroku] Binding tools:",
-            runtimeParams.tools.map((t: any) => t.function.name),
-          );
-        }
+        this.log.debug(
+          { tools: runtimeParams.tools.map((t: any) => t.function.name) },
+          "Binding tools",
+        );
       }
       if (options.tool_choice !== undefined) {
         // Convert LangChain's "any" to Heroku's "required"
@@ -563,14 +576,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
           toolChoice = "required";
         }
 
-        if (process.env.DEBUG_TOOLS) {
-          console.log(
-            "[ChatHeroku] Original tool_choice:",
-            options.tool_choice,
-            "-> Converted:",
-            toolChoice,
-          );
-        }
+        this.log.debug(
+          { original: options.tool_choice, converted: toolChoice },
+          "Converted tool_choice",
+        );
 
         if (
           typeof toolChoice === "string" &&
@@ -588,6 +597,11 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       if (options.additionalKwargs) {
         runtimeParams = { ...runtimeParams, ...options.additionalKwargs };
       }
+      if (options.thinking !== undefined) {
+        runtimeParams.extended_thinking = thinkingToHerokuExtendedThinking(
+          options.thinking,
+        );
+      }
     }
     return { ...constructorParams, ...runtimeParams } as any;
   }
@@ -597,12 +611,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
     options: this["ParsedCallOptions"],
     runManager?: CallbackManagerForLLMRun,
   ): Promise<ChatResult> {
-    if (process.env.DEBUG_CHAT_HEROKU) {
-      console.log(
-        "[ChatHeroku] response_format:",
-        JSON.stringify((options as any).response_format ?? null),
-      );
-    }
+    this.log.debug(
+      { response_format: (options as any).response_format ?? null },
+      "response_format",
+    );
     // Handle native structured output via response_format parameter
     // This is used by LangChain's providerStrategy for agent structured output
     // NOTE: This is experimental and may not work reliably with all agent configurations
@@ -659,12 +671,28 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       wantsStreamingCallbacks;
     if (shouldStream) {
       let aggregatedContent = "";
+      let aggregatedReasoning = "";
       const toolCallChunks: LocalToolCallChunk[] = [];
       let finalFinishReason: string | null = null;
+      let usageMetadata: UsageMetadata | undefined;
       const FALLBACK_TEXT = "I'll use the available tools to help you.";
 
       for await (const chunk of this._stream(messages, options, runManager)) {
-        if (chunk.content) aggregatedContent += chunk.content;
+        if (typeof chunk.content === "string") {
+          aggregatedContent += chunk.content;
+        } else {
+          for (const block of chunk.content as Record<string, any>[]) {
+            if (block.type === "reasoning") {
+              aggregatedReasoning += block.reasoning;
+            } else if (block.type === "text") {
+              aggregatedContent += block.text;
+            }
+          }
+        }
+        if (chunk.usage_metadata) {
+          // Usage covers the whole completion, so the last reported value wins
+          usageMetadata = chunk.usage_metadata;
+        }
         if (
           (chunk as any).tool_call_chunks &&
           (chunk as any).tool_call_chunks.length > 0
@@ -741,15 +769,18 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       }
 
       const finalMessage = new AIMessage({
-        content:
+        content: withReasoningContent(
           aggregatedContent && aggregatedContent.length > 0
             ? aggregatedContent
             : toolCallChunks.length > 0
               ? FALLBACK_TEXT
               : "",
+          aggregatedReasoning,
+        ),
         tool_calls:
           aggregatedToolCalls.length > 0 ? aggregatedToolCalls : undefined,
         additional_kwargs: finalAdditionalKwargs,
+        usage_metadata: usageMetadata,
       });
       const generation: ChatGeneration = {
         message: finalMessage,
@@ -779,7 +810,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       messages,
       params.tools,
     );
-    const herokuMessages = langchainMessagesToHerokuMessages(preparedMessages);
+    const herokuMessages = langchainMessagesToHerokuMessages(
+      preparedMessages,
+      this.log,
+    );
 
     const requestPayload: HerokuChatCompletionRequest = {
       model: params.model || this.getModelForRequest(),
@@ -791,18 +825,41 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       top_p: params.top_p,
       tools: params.tools,
       tool_choice: params.tool_choice,
+      extended_thinking: params.extended_thinking,
       ...params.additionalKwargs,
     };
 
     this.cleanUndefined(requestPayload as any);
 
-    const response = await this.postWithRetries(
+    const { span, context: traceContext } = await this.startOperationSpan(
+      "chat",
       herokuConfig.apiUrl,
-      herokuConfig.apiKey,
-      requestPayload as any,
+      requestPayload,
     );
-
-    const herokuResponse: HerokuChatCompletionResponse = await response.json();
+    let herokuResponse: HerokuChatCompletionResponse;
+    try {
+      const response = await this.postWithRetries(
+        herokuConfig.apiUrl,
+        herokuConfig.apiKey,
+        requestPayload as any,
+        options.signal,
+        traceContext,
+      );
+      herokuResponse = await response.json();
+      recordHerokuResponse(span, {
+        id: herokuResponse.id,
+        model: herokuResponse.model,
+        finishReasons: herokuResponse.choices?.map(
+          (choice) => choice.finish_reason,
+        ),
+        usage: herokuResponse.usage,
+      });
+    } catch (error) {
+      recordHerokuSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
     const choice = herokuResponse.choices[0];
 
     let parsedToolCalls = choice.message.tool_calls?.map((tc) => ({
@@ -816,6 +873,7 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       role: _role,
       content: msgContent,
       tool_calls: _rawToolCalls,
+      reasoning,
       ...restOfMessage
     } = choice.message;
 
@@ -837,9 +895,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
 
     const generation: ChatGeneration = {
       message: new AIMessage({
-        content: content,
+        content: withReasoningContent(content, reasoning?.thinking),
         tool_calls: parsedToolCalls,
         additional_kwargs: restOfMessage,
+        usage_metadata: herokuUsageToUsageMetadata(herokuResponse.usage),
       }),
       text: content,
       generationInfo: {
@@ -875,7 +934,10 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       messages,
       params.tools,
     );
-    const herokuMessages = langchainMessagesToHerokuMessages(preparedMessages);
+    const herokuMessages = langchainMessagesToHerokuMessages(
+      preparedMessages,
+      this.log,
+    );
 
     let herokuToolChoice: HerokuChatCompletionRequest["tool_choice"];
     if (
@@ -902,94 +964,161 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       top_p: params.top_p,
       tools: params.tools,
       tool_choice: herokuToolChoice,
+      extended_thinking: params.extended_thinking,
       ...params.additionalKwargs,
     };
     this.cleanUndefined(requestPayload as any);
-    const response = await this.postWithRetries(
+    const { span, context: traceContext } = await this.startOperationSpan(
+      "chat",
       herokuConfig.apiUrl,
-      herokuConfig.apiKey,
-      requestPayload as any,
+      requestPayload,
     );
-    if (!response.body) {
-      throw new HerokuApiError(
-        "Failed to get a streaming body from Heroku API.",
-        response.status,
+    try {
+      const response = await this.postWithRetries(
+        herokuConfig.apiUrl,
+        herokuConfig.apiKey,
+        requestPayload as any,
+        options.signal,
+        traceContext,
       );
-    }
-
-    // Process the SSE stream
-    let anyContentEmitted = false;
-    let anyToolCallObserved = false;
-    const FALLBACK_TEXT = "I'll use the available tools to help you.";
-    for await (const parsedEvent of parseHerokuSSE(response.body)) {
-      if (parsedEvent.event === "error") {
-        throw new HerokuApiError(
-          "Error in Heroku SSE stream",
+      const errorDetails: HerokuErrorDetails = {
+        requestId: getHerokuRequestId(response),
+        model: requestPayload.model,
+        request: summarizeHerokuRequest(herokuConfig.apiUrl, requestPayload),
+      };
+      if (!response.body) {
+        throw new HerokuStreamError(
+          "Failed to get a streaming body from Heroku API.",
+          response.status,
           undefined,
-          parsedEvent.data,
+          errorDetails,
         );
       }
-      if (parsedEvent.event === "done") {
-        // Heroku specific: if 'done' event signals end, could break.
-        // Otherwise, stream ends when parseHerokuSSE completes.
-        break;
-      }
-      if (parsedEvent.data) {
-        try {
-          const streamChunk = JSON.parse(
+
+      // Process the SSE stream
+      let anyContentEmitted = false;
+      let anyToolCallObserved = false;
+      const FALLBACK_TEXT = "I'll use the available tools to help you.";
+      for await (const parsedEvent of parseHerokuSSE(
+        response.body,
+        undefined,
+        undefined,
+        {
+          signal: options.signal,
+          idleTimeout: this.streamIdleTimeout,
+          logger: this.log,
+        },
+      )) {
+        if (parsedEvent.event === "error") {
+          throw new HerokuStreamError(
+            "Error in Heroku SSE stream",
+            undefined,
             parsedEvent.data,
-          ) as HerokuChatCompletionStreamResponse;
-          if (streamChunk.choices && streamChunk.choices.length > 0) {
-            const choice = streamChunk.choices[0];
-            const delta = choice.delta;
-            let currentChunkContent = "";
-            let currentToolCallChunks: LocalToolCallChunk[] | undefined =
-              undefined;
-
-            if (delta.content) {
-              currentChunkContent = delta.content;
-              anyContentEmitted =
-                anyContentEmitted || currentChunkContent.length > 0;
-              if (currentChunkContent.length > 0) {
-                await runManager?.handleLLMNewToken(currentChunkContent);
+            errorDetails,
+          );
+        }
+        if (parsedEvent.event === "done") {
+          // Heroku specific: if 'done' event signals end, could break.
+          // Otherwise, stream ends when parseHerokuSSE completes.
+          break;
+        }
+        if (parsedEvent.data) {
+          try {
+            const streamChunk = JSON.parse(
+              parsedEvent.data,
+            ) as HerokuChatCompletionStreamResponse;
+            const usageMetadata = herokuUsageToUsageMetadata(streamChunk.usage);
+            recordHerokuResponse(span, {
+              id: streamChunk.id,
+              model: streamChunk.model,
+              finishReasons: streamChunk.choices?.map(
+                (choice) => choice.finish_reason,
+              ),
+              usage: streamChunk.usage,
+            });
+            if (streamChunk.choices && streamChunk.choices.length > 0) {
+              const choice = streamChunk.choices[0];
+              const delta = choice.delta;
+              let currentChunkContent = "";
+              let currentToolCallChunks: LocalToolCallChunk[] | undefined =
+                undefined;
+
+              if (delta.content) {
+                currentChunkContent = delta.content;
+                anyContentEmitted =
+                  anyContentEmitted || currentChunkContent.length > 0;
+                if (currentChunkContent.length > 0) {
+                  await runManager?.handleLLMNewToken(currentChunkContent);
+                }
               }
-            }
 
-            if (delta.tool_calls && delta.tool_calls.length > 0) {
-              currentToolCallChunks = delta.tool_calls.map(
-                (tcChunk, tcChunkIndex) => ({
-                  name: tcChunk.function?.name,
-                  args: tcChunk.function?.arguments,
-                  id: tcChunk.id,
-                  index: (tcChunk as any).index ?? tcChunkIndex,
-                  type: "tool_call_chunk" as const,
-                }),
-              );
-              if (currentToolCallChunks.length > 0) anyToolCallObserved = true;
-            }
+              if (delta.reasoning?.thinking) {
+                // Reasoning is emitted as its own chunk so consumers can show or hide it
+                yield new AIMessageChunk({
+                  content: [
+                    {
+                      type: "reasoning",
+                      reasoning: delta.reasoning.thinking,
+                      index: 0,
+                    },
+                  ],
+                });
+              }
 
-            const { tool_calls: _deltaToolCalls, ...remainingDelta } = delta;
-            const messageChunk = new AIMessageChunk({
-              content: currentChunkContent || "",
-              tool_call_chunks: currentToolCallChunks as any,
-              additional_kwargs: { ...remainingDelta },
-            });
-            yield messageChunk;
+              if (delta.tool_calls && delta.tool_calls.length > 0) {
+                currentToolCallChunks = delta.tool_calls.map(
+                  (tcChunk, tcChunkIndex) => ({
+                    name: tcChunk.function?.name,
+                    args: tcChunk.function?.arguments,
+                    id: tcChunk.id,
+                    index: (tcChunk as any).index ?? tcChunkIndex,
+                    type: "tool_call_chunk" as const,
+                  }),
+                );
+                if (currentToolCallChunks.length > 0)
+                  anyToolCallObserved = true;
+              }
+
+              const {
+                tool_calls: _deltaToolCalls,
+                reasoning: _deltaReasoning,
+                ...remainingDelta
+              } = delta;
+              const messageChunk = new AIMessageChunk({
+                content: currentChunkContent || "",
+                tool_call_chunks: currentToolCallChunks as any,
+                additional_kwargs: { ...remainingDelta },
+                usage_metadata: usageMetadata,
+              });
+              yield messageChunk;
+            } else if (usageMetadata) {
+              // Usage-only chunk (no choices) sent at the end of the stream
+              yield new AIMessageChunk({
+                content: "",
+                usage_metadata: usageMetadata,
+              });
+            }
+          } catch (e: any) {
+            runManager?.handleLLMError(e);
+            throw new HerokuStreamError(
+              "Failed to parse Heroku SSE data chunk",
+              undefined,
+              { data: parsedEvent.data, error: e.message },
+              errorDetails,
+            );
           }
-        } catch (e: any) {
-          runManager?.handleLLMError(e);
-          throw new HerokuApiError(
-            "Failed to parse Heroku SSE data chunk",
-            undefined,
-            { data: parsedEvent.data, error: e.message },
-          );
         }
       }
-    }
 
-    // If no textual content was emitted but tool calls were observed, emit a synthetic message
-    if (!anyContentEmitted && anyToolCallObserved) {
-      yield new AIMessageChunk({ content: FALLBACK_TEXT });
+      // If no textual content was emitted but tool calls were observed, emit a synthetic message
+      if (!anyContentEmitted && anyToolCallObserved) {
+        yield new AIMessageChunk({ content: FALLBACK_TEXT });
+      }
+    } catch (error) {
+      recordHerokuSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
     }
   }
 
@@ -1162,7 +1291,16 @@ export class ChatHeroku extends HerokuModel<ChatHerokuCallOptions> {
       apiUrl: this.apiUrl,
       maxRetries: this.maxRetries,
       timeout: this.timeout,
+      streamIdleTimeout: this.streamIdleTimeout,
       streaming: this.streaming,
+      thinking: this.thinking,
+      fetch: this.fetchImpl,
+      defaultHeaders: this.defaultHeaders,
+      retryableStatusCodes: this.retryableStatusCodes,
+      transportHooks: this.transportHooks,
+      tracer: this.tracer,
+      logger: this.logger,
+      logLevel: this.logLevel,
       additionalKwargs: this.additionalKwargs,
     });
 
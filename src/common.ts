@@ -3,15 +3,33 @@ import {
   AIMessage,
   ToolMessage,
   FunctionMessage,
+  MessageContent,
+  UsageMetadata,
 } from "@langchain/core/messages";
 import { StructuredTool } from "@langchain/core/tools";
 import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
 import type {
   HerokuChatMessage,
+  HerokuChatContentPart,
   HerokuFunctionTool,
   HerokuChatMessageRole,
-  HerokuToolMessageContent,
+  HerokuChatCompletionUsage,
+  HerokuExtendedThinking,
+  ChatHerokuThinkingConfig,
+  HerokuLogger,
+  HerokuRequestAttemptResult,
+  HerokuTransportHooks,
 } from "./types.js";
+import type { Context, Tracer } from "@opentelemetry/api";
+import { createHerokuLogger } from "./logger.js";
+import { redactHerokuSecrets, redactHerokuString } from "./redaction.js";
+import {
+  getHerokuTracer,
+  loadHerokuTracing,
+  recordHerokuRetryCount,
+  recordHerokuSpanError,
+  startHerokuAttemptSpan,
+} from "./tracing.js";
 
 /**
  * Default Heroku Inference API base URL.
@@ -144,7 +162,8 @@ export function getHerokuConfigOptionsWithEnvKeys(
  * Custom error class for Heroku API errors.
  *
  * This error class provides structured error information for debugging and error handling,
- * including HTTP status codes and raw error responses from the Heroku API.
+ * including HTTP status codes and error responses from the Heroku API. The message and
+ * error response are redacted (see {@link redactHerokuSecrets}) so errors can be logged safely.
  *
  * @example
  * ```typescript
@@ -160,22 +179,850 @@ export function getHerokuConfigOptionsWithEnvKeys(
  * ```
  */
 export class HerokuApiError extends Error {
+  /** Request ID reported by the Heroku API, when available */
+  public requestId?: string;
+  /** Model the failed request was made with */
+  public model?: string;
+  /** Sanitized summary of the failed request (no message content or credentials) */
+  public request?: HerokuRequestSummary;
+
   /**
    * Creates a new HerokuApiError instance.
    *
    * @param message - Human-readable error message
    * @param status - HTTP status code from the API response (optional)
-   * @param errorResponse - Raw error response from the API for debugging (optional)
+   * @param errorResponse - Error response from the API for debugging, stored redacted (optional)
+   * @param details - Request ID, model, and request summary (optional)
    */
   constructor(
     message: string,
     public status?: number,
     public errorResponse?: any,
+    details: HerokuErrorDetails = {},
   ) {
-    super(message);
+    super(redactHerokuString(message));
     this.name = "HerokuApiError";
-    Object.setPrototypeOf(this, HerokuApiError.prototype);
+    this.errorResponse = redactHerokuSecrets(errorResponse);
+    this.requestId = details.requestId;
+    this.model = details.model ?? details.request?.model;
+    this.request = details.request;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Sanitized description of a Heroku API request attached to errors.
+ * Only shapes and names are kept; message content, tool arguments, and credentials are dropped.
+ */
+export interface HerokuRequestSummary {
+  /** The request URL */
+  url?: string;
+  /** The requested model */
+  model?: string;
+  /** Whether a streaming response was requested */
+  stream?: boolean;
+  /** Number of messages (chat and agents) */
+  messageCount?: number;
+  /** Number of inputs (embeddings) or documents (rerank) */
+  inputCount?: number;
+  /** Names of the tools sent with the request */
+  toolNames?: string[];
+  /** Names of the other parameters present in the payload */
+  parameters?: string[];
+}
+
+/**
+ * Request context attached to {@link HerokuApiError} and its subclasses.
+ */
+export interface HerokuErrorDetails {
+  /** Request ID reported by the Heroku API */
+  requestId?: string;
+  /** Model the request was made with */
+  model?: string;
+  /** Sanitized request summary */
+  request?: HerokuRequestSummary;
+}
+
+/** Thrown for 401/403 responses: a missing, invalid, or unauthorized API key. */
+export class HerokuAuthenticationError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuAuthenticationError";
+  }
+}
+
+/** Thrown for 429 responses once retries are exhausted. */
+export class HerokuRateLimitError extends HerokuApiError {
+  /** Delay in milliseconds requested by the API's Retry-After header, if sent */
+  public retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails & { retryAfterMs?: number },
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuRateLimitError";
+    this.retryAfterMs = details?.retryAfterMs;
+  }
+}
+
+/** Thrown when the prompt (plus requested output) exceeds the model's context window. */
+export class HerokuContextLengthError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuContextLengthError";
+  }
+}
+
+/** Thrown for other 4xx responses, e.g. unknown models, bad parameters, or invalid tool schemas. */
+export class HerokuInvalidRequestError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuInvalidRequestError";
+  }
+}
+
+/** Thrown for 5xx responses once retries are exhausted. */
+export class HerokuServerError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuServerError";
+  }
+}
+
+/** Thrown when a streaming response reports an error or violates the SSE/JSON protocol. */
+export class HerokuStreamError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuStreamError";
+  }
+}
+
+/** Thrown when a request or a streaming response exceeds its timeout. */
+export class HerokuTimeoutError extends HerokuApiError {
+  constructor(
+    message: string,
+    status?: number,
+    errorResponse?: any,
+    details?: HerokuErrorDetails,
+  ) {
+    super(message, status, errorResponse, details);
+    this.name = "HerokuTimeoutError";
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context (length|window)|maximum context|too many tokens|prompt is too long|input is too long/i;
+
+/**
+ * Creates the {@link HerokuApiError} subclass matching an HTTP status and error message.
+ *
+ * @param message - Human-readable error message
+ * @param status - HTTP status code from the API response
+ * @param errorResponse - Raw error response from the API
+ * @param details - Request ID, model, request summary, and Retry-After delay
+ * @returns The typed error
+ */
+export function createHerokuApiError(
+  message: string,
+  status: number | undefined,
+  errorResponse?: any,
+  details: HerokuErrorDetails & { retryAfterMs?: number } = {},
+): HerokuApiError {
+  if (status === 401 || status === 403) {
+    return new HerokuAuthenticationError(
+      message,
+      status,
+      errorResponse,
+      details,
+    );
+  }
+  if (status === 429) {
+    return new HerokuRateLimitError(message, status, errorResponse, details);
+  }
+  if (status === 408) {
+    return new HerokuTimeoutError(message, status, errorResponse, details);
+  }
+  if (
+    (status === 400 || status === 413 || status === 422) &&
+    CONTEXT_LENGTH_PATTERN.test(message)
+  ) {
+    return new HerokuContextLengthError(
+      message,
+      status,
+      errorResponse,
+      details,
+    );
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return new HerokuInvalidRequestError(
+      message,
+      status,
+      errorResponse,
+      details,
+    );
+  }
+  if (status !== undefined && status >= 500) {
+    return new HerokuServerError(message, status, errorResponse, details);
+  }
+  return new HerokuApiError(message, status, errorResponse, details);
+}
+
+/**
+ * Reads the request ID the Heroku API attaches to its responses.
+ *
+ * @param response - A fetch Response from the Heroku API
+ * @returns The request ID, or undefined when the header is missing
+ */
+export function getHerokuRequestId(response: Response): string | undefined {
+  return (
+    response.headers.get("x-request-id") ??
+    response.headers.get("request-id") ??
+    undefined
+  );
+}
+
+/**
+ * Builds a sanitized summary of a request payload for error reporting.
+ *
+ * @param url - The request URL
+ * @param body - The JSON request payload
+ * @returns A summary without message content, tool arguments, or credentials
+ */
+export function summarizeHerokuRequest(
+  url: string,
+  body: Record<string, any>,
+): HerokuRequestSummary {
+  const summary: HerokuRequestSummary = { url };
+  if (typeof body.model === "string") summary.model = body.model;
+  if (typeof body.stream === "boolean") summary.stream = body.stream;
+  if (Array.isArray(body.messages)) summary.messageCount = body.messages.length;
+  const inputs = body.input ?? body.documents;
+  if (Array.isArray(inputs)) summary.inputCount = inputs.length;
+  if (Array.isArray(body.tools)) {
+    summary.toolNames = body.tools
+      .map((tool: any) => tool?.function?.name ?? tool?.name)
+      .filter((name: unknown): name is string => typeof name === "string");
+  }
+  summary.parameters = Object.keys(body).filter(
+    (key) =>
+      !["model", "stream", "messages", "input", "documents", "tools"].includes(
+        key,
+      ),
+  );
+  return summary;
+}
+
+/**
+ * Builds the headers sent with every Heroku API request.
+ *
+ * Custom headers are merged over the default Content-Type header, while the
+ * Authorization header is always derived from the API key.
+ *
+ * @param apiKey - The Heroku API key used for bearer authentication
+ * @param headers - Extra headers to send (e.g. request IDs or tenant identifiers)
+ * @returns The complete request headers
+ */
+export function buildHerokuHeaders(
+  apiKey: string,
+  headers?: Record<string, string>,
+): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...headers,
+    Authorization: `Bearer ${apiKey}`,
+  };
+}
+
+/**
+ * Returns the error to throw for an aborted signal, mirroring LangChain's behavior:
+ * the abort reason when it is an Error, otherwise a generic "Aborted" error.
+ *
+ * @param signal - The aborted signal
+ * @returns The abort error
+ */
+export function getAbortError(signal?: AbortSignal): Error {
+  if (signal?.reason instanceof Error) return signal.reason;
+  if (typeof signal?.reason === "string") return new Error(signal.reason);
+  return new Error("Aborted");
+}
+
+/**
+ * Resolves after the given delay, rejecting early if the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(getAbortError(signal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Request settings for a single Heroku API call made with {@link postHerokuJson}.
+ */
+export interface HerokuRequestOptions {
+  /** Timeout in milliseconds until the response headers are received */
+  timeout?: number;
+  /**
+   * Caller signal (e.g. from RunnableConfig). Aborting it cancels the request and
+   * tears down the connection, including a response body that is still streaming.
+   */
+  signal?: AbortSignal;
+  /** Extra headers merged over the defaults (see {@link buildHerokuHeaders}) */
+  headers?: Record<string, string>;
+  /** Custom fetch implementation @default globalThis.fetch */
+  fetch?: typeof fetch;
+  /** HTTP method; GET requests are sent without a body or Content-Type @default "POST" */
+  method?: "GET" | "POST";
+}
+
+/** Statuses whose responses cannot be constructed with a body. */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Returns a response whose body calls `release` once it has been read to the
+ * end, cancelled, or has failed. Responses without a body are released at once.
+ */
+function releaseWhenBodyEnds(
+  response: Response,
+  release: () => void,
+): Response {
+  if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * POSTs a JSON body to a Heroku API endpoint once, applying the shared headers,
+ * custom fetch implementation, and timeout. Status handling is left to the caller.
+ * Set `options.method` to "GET" for read-only endpoints.
+ *
+ * @param url - The complete API URL
+ * @param apiKey - The Heroku API key used for bearer authentication
+ * @param body - The JSON request payload (not sent for GET requests)
+ * @param options - Request settings
+ * @returns The fetch Response
+ */
+export async function postHerokuJson(
+  url: string,
+  apiKey: string,
+  body: Record<string, any>,
+  options: HerokuRequestOptions = {},
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? fetch;
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+
+  const abortController = new AbortController();
+  const timeoutId = options.timeout
+    ? setTimeout(() => abortController.abort(), options.timeout)
+    : undefined;
+  // Kept after the headers arrive so cancelling also closes a streaming body,
+  // and removed once that body is consumed, cancelled, or fails
+  const onAbort = () => abortController.abort(getAbortError(signal));
+  const release = () => signal?.removeEventListener("abort", onAbort);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const method = options.method ?? "POST";
+    const headers = buildHerokuHeaders(apiKey, options.headers);
+    if (method === "GET") {
+      delete headers["Content-Type"];
+    }
+    const response = await fetchImpl(url, {
+      method,
+      headers,
+      body: method === "GET" ? undefined : JSON.stringify(body),
+      signal: abortController.signal,
+    });
+    return signal ? releaseWhenBodyEnds(response, release) : response;
+  } catch (error) {
+    release();
+    if (abortController.signal.aborted && !signal?.aborted) {
+      throw new HerokuTimeoutError(
+        `Heroku API request timed out after ${options.timeout}ms`,
+        undefined,
+        error,
+        { request: summarizeHerokuRequest(url, body) },
+      );
+    }
+    throw error;
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * HTTP status codes retried by default: request timeout, rate limiting, and
+ * transient server errors.
+ */
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/** Base delay for the first retry; doubled on every following attempt. */
+const INITIAL_RETRY_DELAY_MS = 1000;
+/** Upper bound for computed backoff delays (Retry-After is honored as sent). */
+const MAX_RETRY_DELAY_MS = 10000;
+
+/**
+ * Retry, timeout, and HTTP client settings for {@link postJsonWithRetries}.
+ */
+export interface HerokuPostOptions extends HerokuRequestOptions {
+  /** Maximum number of retries after the first attempt @default 2 */
+  maxRetries?: number;
+  /** Status codes that trigger a retry @default DEFAULT_RETRYABLE_STATUS_CODES */
+  retryableStatusCodes?: number[];
+  /** Hooks invoked around every attempt */
+  hooks?: HerokuTransportHooks;
+  /** OpenTelemetry tracer for attempt spans @default the global heroku-langchain tracer */
+  tracer?: Tracer;
+  /** Context of the operation span the attempt spans are recorded under */
+  traceContext?: Context;
+}
+
+/**
+ * Parses the Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ *
+ * @param value - The Retry-After header value
+ * @returns The delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the exponential backoff delay (with up to 10% jitter) before a retry.
+ *
+ * @param attempt - The 1-based number of the attempt that just failed
+ * @returns The delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number): number {
+  const delay = Math.min(
+    INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+  return delay + Math.random() * 0.1 * delay;
+}
+
+/**
+ * Builds the typed {@link HerokuApiError} for a failed response, including the parsed
+ * error body, request ID, Retry-After delay, and (when given) the request summary.
+ *
+ * @param response - The non-2xx fetch Response
+ * @param request - Sanitized summary of the failed request
+ * @returns The error describing the failure
+ */
+export async function herokuApiErrorFromResponse(
+  response: Response,
+  request?: HerokuRequestSummary,
+): Promise<HerokuApiError> {
+  const errorText = await response.text().catch(() => "");
+  let errorData: any;
+  try {
+    errorData = JSON.parse(errorText);
+  } catch {
+    errorData = { message: errorText || response.statusText };
+  }
+  const detailedMessage =
+    errorData?.error?.message ||
+    errorData?.message ||
+    errorText ||
+    response.statusText;
+  return createHerokuApiError(
+    `Heroku API request failed with status ${response.status}: ${detailedMessage}`,
+    response.status,
+    errorData,
+    {
+      requestId: getHerokuRequestId(response),
+      request,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    },
+  );
+}
+
+/**
+ * POSTs a JSON body to a Heroku API endpoint with retries, timeout, and consistent error wrapping.
+ *
+ * This is the shared transport for every Heroku client. Responses with a status in
+ * `retryableStatusCodes` and network failures (including timeouts) are retried with
+ * exponential backoff and jitter, honoring the Retry-After header when the API sends one.
+ * Any other non-2xx response fails immediately. Failures are thrown as the typed
+ * {@link HerokuApiError} subclass for the status (see {@link createHerokuApiError}) with
+ * the parsed error body, request ID, and a sanitized request summary. Aborting `options.signal` stops the request (and any pending retry)
+ * immediately with the abort error. Set `options.method` to "GET" for read-only endpoints.
+ *
+ * @param url - The complete API URL
+ * @param apiKey - The Heroku API key used for bearer authentication
+ * @param body - The JSON request payload (not sent for GET requests)
+ * @param options - Retry, timeout, and HTTP client settings
+ * @returns The successful fetch Response
+ * @throws {HerokuApiError} When the request fails after all attempts
+ */
+export async function postJsonWithRetries(
+  url: string,
+  apiKey: string,
+  body: Record<string, any>,
+  options: HerokuPostOptions = {},
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? 2;
+  const retryableStatusCodes =
+    options.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+  const request = summarizeHerokuRequest(url, body);
+  await loadHerokuTracing();
+  const tracer = getHerokuTracer(options.tracer);
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const startedAt = Date.now();
+    const canRetry = attempt <= maxRetries;
+    options.hooks?.onAttemptStart?.({ url, attempt });
+    const span = startHerokuAttemptSpan(
+      tracer,
+      url,
+      attempt,
+      options.traceContext,
+      options.method,
+    );
+    const finishAttempt = (result: HerokuRequestAttemptResult) => {
+      if (result.status !== undefined) {
+        span.setAttribute("http.response.status_code", result.status);
+      }
+      if (result.error !== undefined) {
+        recordHerokuSpanError(span, result.error);
+      }
+      span.end();
+      if (options.traceContext) {
+        recordHerokuRetryCount(options.traceContext, attempt - 1);
+      }
+      options.hooks?.onAttemptEnd?.(result);
+    };
+
+    let response: Response;
+    try {
+      response = await postHerokuJson(url, apiKey, body, options);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        finishAttempt({
+          url,
+          attempt,
+          error,
+          durationMs: Date.now() - startedAt,
+        });
+        throw getAbortError(options.signal);
+      }
+      // Network failures and timeouts are always worth another attempt
+      lastError = error;
+      const retryDelayMs = canRetry ? computeRetryDelay(attempt) : undefined;
+      finishAttempt({
+        url,
+        attempt,
+        error,
+        durationMs: Date.now() - startedAt,
+        retryDelayMs,
+      });
+      if (retryDelayMs === undefined) break;
+      await sleep(retryDelayMs, options.signal);
+      continue;
+    }
+
+    if (response.ok) {
+      finishAttempt({
+        url,
+        attempt,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    }
+
+    const error = await herokuApiErrorFromResponse(response, request);
+    const retryDelayMs =
+      canRetry && retryableStatusCodes.includes(response.status)
+        ? (parseRetryAfter(response.headers.get("retry-after")) ??
+          computeRetryDelay(attempt))
+        : undefined;
+    finishAttempt({
+      url,
+      attempt,
+      status: response.status,
+      error,
+      durationMs: Date.now() - startedAt,
+      retryDelayMs,
+    });
+    if (retryDelayMs === undefined) {
+      throw error;
+    }
+    lastError = error;
+    await sleep(retryDelayMs, options.signal);
+  }
+
+  if (lastError instanceof HerokuApiError) throw lastError;
+  throw new HerokuApiError(
+    `Heroku API request failed after ${maxRetries + 1} attempts: ${(lastError as Error | undefined)?.message || "Unknown error"}`,
+    undefined,
+    lastError,
+    { request },
+  );
+}
+
+/**
+ * Converts a Heroku token usage object into LangChain's `UsageMetadata` shape.
+ *
+ * LangChain reads `AIMessage.usage_metadata` for usage callbacks and tracing
+ * (e.g. LangSmith), so every Heroku response that reports usage should be
+ * mapped through this helper.
+ *
+ * @param usage - The `usage` object from a Heroku chat completion response or chunk
+ * @returns The equivalent UsageMetadata, or undefined when no usage was reported
+ *
+ * @example
+ * ```typescript
+ * herokuUsageToUsageMetadata({ prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 });
+ * // { input_tokens: 12, output_tokens: 30, total_tokens: 42 }
+ * ```
+ */
+export function herokuUsageToUsageMetadata(
+  usage?: Partial<HerokuChatCompletionUsage> | null,
+): UsageMetadata | undefined {
+  if (!usage || typeof usage !== "object") {
+    return undefined;
+  }
+  const inputTokens = usage.prompt_tokens ?? 0;
+  const outputTokens = usage.completion_tokens ?? 0;
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: usage.total_tokens ?? inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Converts the ChatHeroku `thinking` option to the Heroku `extended_thinking` request field.
+ *
+ * @param thinking - `true`/`false` or a thinking configuration object
+ * @returns The extended_thinking payload, or undefined when thinking is not configured
+ */
+export function thinkingToHerokuExtendedThinking(
+  thinking?: boolean | ChatHerokuThinkingConfig,
+): HerokuExtendedThinking | undefined {
+  if (thinking === undefined) {
+    return undefined;
+  }
+  if (typeof thinking === "boolean") {
+    return thinking
+      ? { enabled: true, include_reasoning: true }
+      : { enabled: false };
+  }
+
+  const extendedThinking: HerokuExtendedThinking = {
+    enabled: thinking.enabled ?? true,
+    include_reasoning: thinking.includeReasoning ?? true,
+  };
+  if (thinking.budgetTokens !== undefined) {
+    extendedThinking.budget_tokens = thinking.budgetTokens;
   }
+  return extendedThinking;
+}
+
+/**
+ * Builds AI message content with the model's reasoning as a separate `reasoning`
+ * content block ahead of the answer text. Returns the plain text when there is no
+ * reasoning so text-only responses keep string content.
+ *
+ * @param text - The answer text
+ * @param reasoning - Reasoning text returned by the model, if any
+ * @returns String content, or reasoning and text content blocks
+ */
+export function withReasoningContent(
+  text: string,
+  reasoning?: string,
+): MessageContent {
+  if (!reasoning) {
+    return text;
+  }
+  const content: MessageContent = [{ type: "reasoning", reasoning }];
+  if (text) {
+    content.push({ type: "text", text });
+  }
+  return content;
+}
+
+/**
+ * Content block types that only carry model-side metadata (tool calls, reasoning)
+ * and have no equivalent content part in Heroku API requests.
+ */
+const IGNORED_CONTENT_BLOCK_TYPES = new Set([
+  "tool_use",
+  "tool_call",
+  "tool_call_chunk",
+  "reasoning",
+  "thinking",
+]);
+
+/**
+ * Converts a LangChain image content block to a Heroku `image_url` content part.
+ *
+ * Supports OpenAI-style `image_url` blocks as well as LangChain standard image blocks
+ * with either a URL or base64 data (which is sent as a data URL).
+ */
+function imageBlockToHerokuContentPart(
+  block: Record<string, any>,
+): HerokuChatContentPart | undefined {
+  if (block.type === "image_url") {
+    const imageUrl =
+      typeof block.image_url === "string"
+        ? { url: block.image_url }
+        : block.image_url;
+    return imageUrl?.url
+      ? { type: "image_url", image_url: { ...imageUrl } }
+      : undefined;
+  }
+
+  if (block.url && block.source_type !== "base64") {
+    return { type: "image_url", image_url: { url: block.url } };
+  }
+
+  if (block.data) {
+    const mimeType = block.mimeType ?? block.mime_type;
+    if (!mimeType) {
+      throw new Error("A mime type is required for base64 image content.");
+    }
+    const data =
+      typeof block.data === "string"
+        ? block.data
+        : Buffer.from(block.data).toString("base64");
+    return {
+      type: "image_url",
+      image_url: { url: `data:${mimeType};base64,${data}` },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts LangChain message content to the Heroku API content format.
+ *
+ * String content is passed through unchanged. Content block arrays are mapped to
+ * Heroku content parts (`text` and `image_url`); arrays that only contain text are
+ * collapsed into a single string so text-only models keep receiving plain content.
+ *
+ * @param content - LangChain message content (string or content blocks)
+ * @param logger - Receives a warning for unsupported content blocks; a
+ * "heroku-langchain" logger is created only when a warning is logged
+ * @returns A string, or content parts when the message includes images
+ */
+export function langchainContentToHerokuContent(
+  content: MessageContent,
+  logger?: HerokuLogger,
+): string | HerokuChatContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  const parts: HerokuChatContentPart[] = [];
+  for (const block of content as Record<string, any>[]) {
+    if (typeof block === "string") {
+      parts.push({ type: "text", text: block });
+    } else if (block.type === "text") {
+      parts.push({ type: "text", text: block.text ?? "" });
+    } else if (block.type === "image_url" || block.type === "image") {
+      const part = imageBlockToHerokuContentPart(block);
+      if (!part) {
+        throw new Error(
+          `Unsupported image content block: ${JSON.stringify(block)}`,
+        );
+      }
+      parts.push(part);
+    } else if (!IGNORED_CONTENT_BLOCK_TYPES.has(block.type)) {
+      (logger ?? createHerokuLogger("heroku-langchain")).warn(
+        { blockType: block.type },
+        `Unsupported content block type: ${block.type}`,
+      );
+    }
+  }
+
+  if (parts.every((part) => part.type === "text")) {
+    return parts.map((part) => (part as { text: string }).text).join("");
+  }
+  return parts;
 }
 
 /**
@@ -192,6 +1039,9 @@ export class HerokuApiError extends Error {
  * - ToolMessage → tool role (with tool_call_id)
  * - FunctionMessage → tool role (with function name)
  *
+ * Multimodal content (text and image blocks) is converted to Heroku content parts
+ * via {@link langchainContentToHerokuContent}.
+ *
  * @param messages - Array of LangChain BaseMessage instances
  * @returns Array of Heroku-formatted chat messages
  *
@@ -218,10 +1068,11 @@ export class HerokuApiError extends Error {
  */
 export function langchainMessagesToHerokuMessages(
   messages: BaseMessage[],
+  logger?: HerokuLogger,
 ): HerokuChatMessage[] {
   return messages.map((message): HerokuChatMessage => {
     let role: HerokuChatMessageRole;
-    let content: string | HerokuToolMessageContent[] = "";
+    let content: HerokuChatMessage["content"] = "";
     const additionalArgs: Record<string, any> = {};
 
     // Use getType() method instead of instanceof for more reliable type detection
@@ -230,13 +1081,13 @@ export function langchainMessagesToHerokuMessages(
     switch (messageType) {
       case "human":
         role = "user";
-        content = message.content as string;
+        content = langchainContentToHerokuContent(message.content, logger);
         break;
 
       case "ai":
         role = "assistant";
         const aiMessage = message as AIMessage;
-        content = aiMessage.content as string;
+        content = langchainContentToHerokuContent(aiMessage.content, logger);
         if (aiMessage.tool_calls && aiMessage.tool_calls.length > 0) {
           additionalArgs.tool_calls = aiMessage.tool_calls.map((tc) => ({
             id: tc.id,
@@ -252,7 +1103,7 @@ export function langchainMessagesToHerokuMessages(
 
       case "system":
         role = "system";
-        content = message.content as string;
+        content = langchainContentToHerokuContent(message.content, logger);
         break;
 
       case "tool":
@@ -335,11 +1186,12 @@ export function langchainMessagesToHerokuMessages(
 
       default:
         // Fallback for unknown message types
-        console.warn(
-          `Unknown message type: ${messageType} (constructor: ${message.constructor.name})`,
+        (logger ?? createHerokuLogger("heroku-langchain")).warn(
+          { messageType, constructor: message.constructor.name },
+          `Unknown message type: ${messageType}`,
         );
         role = "user"; // Fallback role
-        content = message.content as string; // Fallback content extraction
+        content = langchainContentToHerokuContent(message.content, logger); // Fallback content extraction
         break;
     }
 
@@ -477,6 +1329,18 @@ export interface ParsedSSEEvent {
   retry?: number;
 }
 
+/**
+ * Cancellation and idle timeout settings for {@link parseHerokuSSE}.
+ */
+export interface ParseHerokuSSEOptions {
+  /** Caller signal; aborting it stops reading and cancels the stream */
+  signal?: AbortSignal;
+  /** Maximum time in milliseconds to wait for the next chunk before giving up */
+  idleTimeout?: number;
+  /** Receives stream failures when no onError callback is given */
+  logger?: HerokuLogger;
+}
+
 /**
  * Parses a ReadableStream of Uint8Array chunks as Server-Sent Events.
  *
@@ -494,6 +1358,7 @@ export interface ParsedSSEEvent {
  * @param stream - The ReadableStream from a fetch response (response.body)
  * @param onDone - Optional callback when the stream is finished
  * @param onError - Optional callback for errors during stream processing
+ * @param options - Optional abort signal and idle timeout for reading the stream
  * @yields Parsed SSE events as they are received
  *
  * @example
@@ -527,14 +1392,49 @@ export interface ParsedSSEEvent {
  * }
  * ```
  *
- * @throws {HerokuApiError} For stream processing errors or parsing failures
+ * @throws {HerokuStreamError} For stream processing errors or parsing failures
+ * @throws {HerokuTimeoutError} When no chunk arrives within `options.idleTimeout`
+ * @throws The abort error when `options.signal` is aborted
  */
 export async function* parseHerokuSSE(
   stream: ReadableStream<Uint8Array>,
   onDone?: () => void,
   onError?: (error: any) => void,
+  options: ParseHerokuSSEOptions = {},
 ): AsyncGenerator<ParsedSSEEvent> {
+  const {
+    signal,
+    idleTimeout,
+    logger = createHerokuLogger("heroku-langchain"),
+  } = options;
   const reader = stream.getReader();
+  const readChunk = (): Promise<ReadableStreamReadResult<Uint8Array>> => {
+    if (!signal && !idleTimeout) {
+      return reader.read();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(getAbortError(signal));
+      const timeoutId = idleTimeout
+        ? setTimeout(
+            () =>
+              reject(
+                new HerokuTimeoutError(
+                  `SSE stream idle for more than ${idleTimeout}ms`,
+                ),
+              ),
+            idleTimeout,
+          )
+        : undefined;
+      signal?.addEventListener("abort", onAbort, { once: true });
+      reader
+        .read()
+        .then(resolve, reject)
+        .finally(() => {
+          if (timeoutId) clearTimeout(timeoutId);
+          signal?.removeEventListener("abort", onAbort);
+        });
+    });
+  };
   const decoder = new TextDecoder();
   let buffer = "";
 
@@ -545,7 +1445,10 @@ export async function* parseHerokuSSE(
 
   try {
     while (true) {
-      const { value, done } = await reader.read();
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      const { value, done } = await readChunk();
       if (done) {
         if (currentDataLines.length > 0) {
           yield {
@@ -612,11 +1515,18 @@ export async function* parseHerokuSSE(
       }
     }
   } catch (error: any) {
+    if (signal?.aborted) {
+      // Cancellation is not a stream failure; surface the abort error as-is
+      throw getAbortError(signal);
+    }
+    if (error instanceof HerokuApiError) {
+      throw error;
+    }
     if (onError) {
       onError(error);
     } else {
-      console.error("Error reading or parsing SSE stream:", error);
-      throw new HerokuApiError(
+      logger.error({ error }, "Error reading or parsing SSE stream");
+      throw new HerokuStreamError(
         "Failed to process SSE stream",
         undefined,
         error,
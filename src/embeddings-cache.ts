@@ -0,0 +1,238 @@
+/**
+ * Embedding caches for HerokuEmbeddings, so unchanged texts are not re-embedded
+ * on every run. Entries are keyed by model, input type, embedding type and a
+ * SHA-256 hash of the text.
+ */
+
+import type { ConnectionOptions } from "node:tls";
+import type { HerokuEmbeddingsCacheStore } from "./types.js";
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_KEY_PREFIX = "heroku-embeddings:";
+
+/**
+ * What an embedding was computed with; any difference gives a different cache key.
+ */
+export interface HerokuEmbeddingsCacheKeyParams {
+  model: string;
+  inputType: string;
+  embeddingType: string;
+  text: string;
+}
+
+/**
+ * Builds the cache key for an embedding: `<model>:<input_type>:<embedding_type>:<sha256 of text>`.
+ *
+ * @param params - The model, input type, embedding type and text
+ * @returns The cache key
+ */
+export async function herokuEmbeddingsCacheKey(
+  params: HerokuEmbeddingsCacheKeyParams,
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(params.text),
+  );
+  const hash = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${params.model}:${params.inputType}:${params.embeddingType}:${hash}`;
+}
+
+/**
+ * Options for {@link HerokuInMemoryEmbeddingsCache}.
+ */
+export interface HerokuInMemoryEmbeddingsCacheOptions {
+  /** Entries kept before the least recently used are evicted @default 10000 */
+  maxEntries?: number;
+}
+
+/**
+ * **HerokuInMemoryEmbeddingsCache** - In-process LRU cache for HerokuEmbeddings
+ *
+ * Keeps up to `maxEntries` embeddings in memory and evicts the least recently
+ * used. Entries are lost when the process restarts; use
+ * {@link HerokuRedisEmbeddingsCache} to share a cache across dynos and deploys.
+ *
+ * @example
+ * ```typescript
+ * const embeddings = new HerokuEmbeddings({
+ *   cache: new HerokuInMemoryEmbeddingsCache({ maxEntries: 5000 }),
+ * });
+ * ```
+ */
+export class HerokuInMemoryEmbeddingsCache
+  implements HerokuEmbeddingsCacheStore
+{
+  private entries = new Map<string, number[]>();
+  private maxEntries: number;
+
+  constructor(options: HerokuInMemoryEmbeddingsCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  }
+
+  /** Number of cached embeddings. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async mget(keys: string[]): Promise<(number[] | undefined)[]> {
+    return keys.map((key) => {
+      const vector = this.entries.get(key);
+      if (vector !== undefined) {
+        // Re-insert to mark the entry as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, vector);
+      }
+      return vector;
+    });
+  }
+
+  async mset(entries: [string, number[]][]): Promise<void> {
+    for (const [key, vector] of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+    }
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Removes every cached embedding. */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * The Redis commands used by {@link HerokuRedisEmbeddingsCache}. Clients from
+ * `redis` (node-redis, `mGet`) and `ioredis` (`mget`) both fit.
+ */
+export interface HerokuRedisClient {
+  mGet?(keys: string[]): Promise<(string | null)[]>;
+  mget?(...keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, ...args: any[]): Promise<unknown>;
+}
+
+/**
+ * Options for {@link HerokuRedisEmbeddingsCache}.
+ */
+export interface HerokuRedisEmbeddingsCacheOptions {
+  /**
+   * Connected Redis client to use. When omitted, a `redis` client is created for
+   * `url` (the optional `redis` package must be installed).
+   */
+  client?: HerokuRedisClient;
+
+  /**
+   * Redis connection URL.
+   * If not provided, the library will check the environment variable REDIS_URL.
+   */
+  url?: string;
+
+  /**
+   * TLS options for the client created from `url`; `rediss://` URLs use TLS
+   * with certificate checks by default. Heroku Key-Value Store uses a
+   * self-signed certificate, so pass `{ rejectUnauthorized: false }` (or a `ca`)
+   * to connect to it.
+   */
+  tls?: ConnectionOptions;
+
+  /** Prefix added to every key @default "heroku-embeddings:" */
+  keyPrefix?: string;
+
+  /** Seconds before cached embeddings expire; never when omitted */
+  ttlSeconds?: number;
+}
+
+/**
+ * **HerokuRedisEmbeddingsCache** - Heroku Key-Value Store cache for HerokuEmbeddings
+ *
+ * Stores embeddings in Redis, so the cache is shared by every dyno and survives
+ * deploys. Connects with `REDIS_URL` by default, which Heroku Key-Value Store
+ * sets when attached to the app.
+ *
+ * @example
+ * ```typescript
+ * import { createClient } from "redis";
+ *
+ * const client = await createClient({ url: process.env.REDIS_URL }).connect();
+ * const embeddings = new HerokuEmbeddings({
+ *   cache: new HerokuRedisEmbeddingsCache({ client, ttlSeconds: 7 * 86400 }),
+ * });
+ * ```
+ */
+export class HerokuRedisEmbeddingsCache implements HerokuEmbeddingsCacheStore {
+  private client?: HerokuRedisClient;
+  private url?: string;
+  private tls?: ConnectionOptions;
+  private keyPrefix: string;
+  private ttlSeconds?: number;
+  private connecting?: Promise<HerokuRedisClient>;
+
+  constructor(options: HerokuRedisEmbeddingsCacheOptions = {}) {
+    this.client = options.client;
+    this.url = options.url;
+    this.tls = options.tls;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.ttlSeconds = options.ttlSeconds;
+  }
+
+  private async getClient(): Promise<HerokuRedisClient> {
+    if (this.client) {
+      return this.client;
+    }
+    this.connecting ??= (async () => {
+      const url = this.url ?? process.env.REDIS_URL;
+      if (!url) {
+        throw new Error(
+          "Redis URL not found. Please set the REDIS_URL environment variable, or pass url or client to the constructor.",
+        );
+      }
+      // Optional peer dependency, only loaded when the cache creates its own client
+      const { createClient } = await import("redis");
+      const client = createClient({
+        url,
+        socket: this.tls ? { tls: true, ...this.tls } : undefined,
+      });
+      await client.connect();
+      this.client = client as HerokuRedisClient;
+      return this.client;
+    })().catch((error) => {
+      this.connecting = undefined;
+      throw error;
+    });
+    return this.connecting;
+  }
+
+  async mget(keys: string[]): Promise<(number[] | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const client = await this.getClient();
+    const prefixed = keys.map((key) => this.keyPrefix + key);
+    const values = client.mGet
+      ? await client.mGet(prefixed)
+      : await client.mget!(...prefixed);
+    return values.map((value) =>
+      value === null || value === undefined ? undefined : JSON.parse(value),
+    );
+  }
+
+  async mset(entries: [string, number[]][]): Promise<void> {
+    const client = await this.getClient();
+    await Promise.all(
+      entries.map(([key, vector]) => {
+        const value = JSON.stringify(vector);
+        if (this.ttlSeconds === undefined) {
+          return client.set(this.keyPrefix + key, value);
+        }
+        // node-redis takes an options object, ioredis positional arguments
+        return client.mGet
+          ? client.set(this.keyPrefix + key, value, { EX: this.ttlSeconds })
+          : client.set(this.keyPrefix + key, value, "EX", this.ttlSeconds);
+      }),
+    );
+  }
+}
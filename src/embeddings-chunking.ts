@@ -0,0 +1,174 @@
+/**
+ * Splitting of long texts into chunks the embeddings API accepts, and pooling of
+ * the chunk embeddings back into one vector per text.
+ *
+ * @internal
+ */
+
+import type { HerokuEmbeddingsChunkingOptions } from "./types.js";
+
+/** Maximum characters per input accepted by the embeddings API. */
+export const MAX_EMBEDDING_CHAR_LENGTH = 2048;
+
+const SEGMENT_PATTERNS = {
+  sentence: /[^.!?\n]*(?:[.!?]+|\n+|$)\s*/g,
+  paragraph: /[\s\S]*?(?:\n[^\S\n]*\n\s*|$)/g,
+};
+
+/**
+ * Chunking options with every default applied.
+ *
+ * @internal
+ */
+export type ResolvedChunkingOptions = Required<HerokuEmbeddingsChunkingOptions>;
+
+/**
+ * Applies defaults to chunking options and checks them.
+ *
+ * @throws {Error} When `chunkSize` is not positive, or `overlap` is negative or
+ * not less than `chunkSize`
+ * @internal
+ */
+export function resolveChunkingOptions(
+  options: HerokuEmbeddingsChunkingOptions = {},
+): ResolvedChunkingOptions {
+  const chunkSize = Math.min(
+    options.chunkSize ?? MAX_EMBEDDING_CHAR_LENGTH,
+    MAX_EMBEDDING_CHAR_LENGTH,
+  );
+  const overlap = options.overlap ?? 0;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(
+      `chunking.chunkSize must be a positive integer. Received ${options.chunkSize}.`,
+    );
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= chunkSize) {
+    throw new Error(
+      `chunking.overlap must be an integer from 0 to ${chunkSize - 1}. Received ${overlap}.`,
+    );
+  }
+  return {
+    boundary: options.boundary ?? "character",
+    chunkSize,
+    overlap,
+    pooling: options.pooling ?? "mean",
+  };
+}
+
+function splitBetweenWords(segment: string, chunkSize: number): string[] {
+  const parts: string[] = [];
+  let rest = segment;
+  while (rest.length > chunkSize) {
+    const lastSpace = rest.slice(0, chunkSize).search(/\s\S*$/);
+    const end = lastSpace > 0 ? lastSpace + 1 : chunkSize;
+    parts.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+function packSegments(
+  segments: string[],
+  chunkSize: number,
+  overlap: number,
+): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const segment of segments) {
+    if (current.length > 0 && length + segment.length > chunkSize) {
+      chunks.push(current.join(""));
+      // Carry whole trailing segments into the next chunk, up to `overlap` characters
+      let carried: string[] = [];
+      let carriedLength = 0;
+      for (let i = current.length - 1; i >= 0; i -= 1) {
+        if (carriedLength + current[i].length > overlap) break;
+        carried.unshift(current[i]);
+        carriedLength += current[i].length;
+      }
+      if (carriedLength + segment.length > chunkSize) {
+        carried = [];
+        carriedLength = 0;
+      }
+      current = carried;
+      length = carriedLength;
+    }
+    current.push(segment);
+    length += segment.length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join(""));
+  }
+  return chunks;
+}
+
+/**
+ * Splits text into chunks of at most `chunkSize` characters along the configured
+ * boundary. With "first" pooling only the first chunk is returned.
+ *
+ * @internal
+ */
+export function chunkTextForEmbeddings(
+  text: string,
+  options: ResolvedChunkingOptions,
+): string[] {
+  const { boundary, chunkSize, overlap } = options;
+  let chunks: string[];
+
+  if (boundary === "character") {
+    chunks = [];
+    for (let i = 0; i < text.length; i += chunkSize - overlap) {
+      chunks.push(text.slice(i, i + chunkSize));
+      if (i + chunkSize >= text.length) break;
+    }
+  } else {
+    const segments = (text.match(SEGMENT_PATTERNS[boundary]) ?? [])
+      .filter((segment) => segment.length > 0)
+      .flatMap((segment) => splitBetweenWords(segment, chunkSize));
+    chunks = packSegments(segments, chunkSize, overlap);
+  }
+
+  return options.pooling === "first" ? chunks.slice(0, 1) : chunks;
+}
+
+/**
+ * Combines the embeddings of a text's chunks into one vector.
+ *
+ * @param vectors - One embedding per chunk
+ * @param chunks - The chunk texts, used as weights by "weighted_mean"
+ * @param pooling - How to combine the embeddings
+ * @internal
+ */
+export function poolChunkEmbeddings(
+  vectors: number[][],
+  chunks: string[],
+  pooling: ResolvedChunkingOptions["pooling"],
+): number[] {
+  if (vectors.length === 0) {
+    return [];
+  }
+  if (pooling === "first") {
+    return vectors[0];
+  }
+  if (pooling === "max") {
+    return vectors[0].map((_, j) =>
+      Math.max(...vectors.map((vector) => vector[j])),
+    );
+  }
+
+  const weights =
+    pooling === "weighted_mean"
+      ? chunks.map((chunk) => chunk.length)
+      : vectors.map(() => 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const aggregate: number[] = new Array(vectors[0].length).fill(0);
+  vectors.forEach((vector, i) => {
+    for (let j = 0; j < vector.length; j += 1) {
+      aggregate[j] += vector[j] * weights[i];
+    }
+  });
+  return aggregate.map((value) => value / totalWeight);
+}
@@ -2,13 +2,107 @@ import { Embeddings } from "@langchain/core/embeddings";
 import {
   HerokuEmbeddingsFields,
   HerokuEmbeddingsCallOptions,
+  HerokuEmbeddingsOversizedInputPolicy,
+  HerokuEmbeddingsCacheStore,
+  HerokuEmbeddingObject,
+  HerokuEmbeddingType,
+  HerokuTypedEmbedding,
   HerokuEmbeddingsRequest,
   HerokuEmbeddingsResponse,
+  HerokuTransportHooks,
+  HerokuLogger,
+  HerokuLogLevel,
 } from "./types.js";
-import { getHerokuConfigOptionsWithEnvKeys, HerokuApiError } from "./common.js";
+import type { Tracer } from "@opentelemetry/api";
+import {
+  getHerokuConfigOptionsWithEnvKeys,
+  postJsonWithRetries,
+} from "./common.js";
+import { createHerokuLogger } from "./logger.js";
+import { herokuEmbeddingsCacheKey } from "./embeddings-cache.js";
+import {
+  chunkTextForEmbeddings,
+  MAX_EMBEDDING_CHAR_LENGTH,
+  poolChunkEmbeddings,
+  resolveChunkingOptions,
+  type ResolvedChunkingOptions,
+} from "./embeddings-chunking.js";
+import {
+  getHerokuTracer,
+  loadHerokuTracing,
+  recordHerokuResponse,
+  recordHerokuSpanError,
+  startHerokuOperationSpan,
+} from "./tracing.js";
 
 const MAX_EMBEDDING_INPUTS = 96;
-const MAX_EMBEDDING_CHAR_LENGTH = 2048;
+const DEFAULT_EMBEDDING_CONCURRENCY = 4;
+
+type RawEmbedding = HerokuEmbeddingObject["embedding"];
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Converts an embedding from the API (a number array, or base64 bytes when
+ * `encoding_format` is "base64") into the typed array for its embedding type.
+ * Float embeddings are little-endian float32; binary types hold 8 packed bits per byte.
+ */
+function toTypedEmbedding(
+  embedding: RawEmbedding,
+  embeddingType: HerokuEmbeddingType,
+): HerokuTypedEmbedding {
+  if (typeof embedding !== "string") {
+    switch (embeddingType) {
+      case "int8":
+      case "binary":
+        return Int8Array.from(embedding);
+      case "uint8":
+      case "ubinary":
+        return Uint8Array.from(embedding);
+      default:
+        return Float32Array.from(embedding);
+    }
+  }
+
+  const bytes = decodeBase64(embedding);
+  switch (embeddingType) {
+    case "int8":
+    case "binary":
+      return new Int8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    case "uint8":
+    case "ubinary":
+      return bytes;
+    default: {
+      if (bytes.byteLength % 4 !== 0) {
+        throw new Error(
+          `Invalid base64 float embedding: ${bytes.byteLength} bytes is not a multiple of 4.`,
+        );
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset);
+      const vector = new Float32Array(bytes.byteLength / 4);
+      for (let i = 0; i < vector.length; i += 1) {
+        vector[i] = view.getFloat32(i * 4, true);
+      }
+      return vector;
+    }
+  }
+}
+
+function toNumberEmbedding(
+  embedding: RawEmbedding,
+  embeddingType: HerokuEmbeddingType,
+): number[] {
+  return typeof embedding === "string"
+    ? Array.from(toTypedEmbedding(embedding, embeddingType))
+    : embedding;
+}
 
 /**
  * **HerokuEmbeddings** - Heroku Managed Inference Embeddings Integration
@@ -78,20 +172,16 @@ const MAX_EMBEDDING_CHAR_LENGTH = 2048;
  *
  * @example
  * ```typescript
- * // Error handling and validation
- * try {
- *   const embeddings = new HerokuEmbeddings({
- *     model: "cohere-embed-multilingual"
- *   });
+ * // Large corpora are split into batches of 96 and sent concurrently
+ * const embeddings = new HerokuEmbeddings({
+ *   model: "cohere-embed-multilingual",
+ *   maxConcurrency: 2,
+ *   oversizedInputs: "error" // throw on inputs over 2048 characters
+ * });
  *
- *   // This will throw an error due to input constraints
- *   const tooManyDocs = new Array(100).fill("Sample document");
- *   await embeddings.embedDocuments(tooManyDocs);
- * } catch (error) {
- *   if (error instanceof Error) {
- *     console.error("Validation error:", error.message);
- *   }
- * }
+ * const vectors = await embeddings.embedDocuments(
+ *   new Array(500).fill("Sample document")
+ * );
  * ```
  *
  * @see {@link HerokuEmbeddingsFields} for constructor options
@@ -106,12 +196,27 @@ export class HerokuEmbeddings extends Embeddings {
   protected maxRetries: number;
   protected timeout?: number;
   protected additionalKwargs: Record<string, any>;
+  protected fetchImpl?: typeof fetch;
+  protected defaultHeaders?: Record<string, string>;
+  protected retryableStatusCodes?: number[];
+  protected transportHooks?: HerokuTransportHooks;
+  protected tracer?: Tracer;
+  /** Logger supplied by the caller */
+  protected logger?: HerokuLogger;
+  protected logLevel?: HerokuLogLevel;
+  /** Namespaced, redacting logger used for this instance's diagnostics */
+  protected log: HerokuLogger;
+  protected batchSize: number;
+  protected oversizedInputs: HerokuEmbeddingsOversizedInputPolicy;
+  protected cache?: HerokuEmbeddingsCacheStore;
+  protected chunking: ResolvedChunkingOptions;
 
   /**
    * Creates a new HerokuEmbeddings instance.
    *
    * @param fields - Optional configuration options for the Heroku embeddings model
    * @throws {Error} When model ID is not provided and EMBEDDING_MODEL_ID environment variable is not set
+   * @throws {Error} When the chunking options are invalid
    *
    * @example
    * ```typescript
@@ -129,7 +234,13 @@ export class HerokuEmbeddings extends Embeddings {
    * ```
    */
   constructor(fields?: HerokuEmbeddingsFields) {
-    super(fields ?? {});
+    // The inherited AsyncCaller only bounds batch concurrency; retries are left
+    // to the shared transport so a failing request is not retried twice
+    super({
+      ...fields,
+      maxRetries: 0,
+      maxConcurrency: fields?.maxConcurrency ?? DEFAULT_EMBEDDING_CONCURRENCY,
+    });
 
     const modelFromEnv =
       typeof process !== "undefined" &&
@@ -148,6 +259,21 @@ export class HerokuEmbeddings extends Embeddings {
     this.maxRetries = fields?.maxRetries ?? 2;
     this.timeout = fields?.timeout;
     this.additionalKwargs = fields?.additionalKwargs ?? {};
+    this.fetchImpl = fields?.fetch;
+    this.defaultHeaders = fields?.defaultHeaders;
+    this.retryableStatusCodes = fields?.retryableStatusCodes;
+    this.transportHooks = fields?.transportHooks;
+    this.tracer = fields?.tracer;
+    this.logger = fields?.logger;
+    this.logLevel = fields?.logLevel;
+    this.log = createHerokuLogger("HerokuEmbeddings", fields);
+    this.batchSize = Math.min(
+      Math.max(1, fields?.batchSize ?? MAX_EMBEDDING_INPUTS),
+      MAX_EMBEDDING_INPUTS,
+    );
+    this.oversizedInputs = fields?.oversizedInputs ?? "chunk";
+    this.cache = fields?.cache;
+    this.chunking = resolveChunkingOptions(fields?.chunking);
   }
 
   /**
@@ -234,40 +360,41 @@ export class HerokuEmbeddings extends Embeddings {
     }
   }
 
-  private chunkTextForEmbeddings(text: string): string[] {
-    const chunks: string[] = [];
-    for (let i = 0; i < text.length; i += MAX_EMBEDDING_CHAR_LENGTH) {
-      chunks.push(text.slice(i, i + MAX_EMBEDDING_CHAR_LENGTH));
-    }
-    return chunks;
-  }
-
-  private async embedChunksAndAverage(
+  private async embedChunksAndPool(
     chunks: string[],
     options?: HerokuEmbeddingsCallOptions,
   ): Promise<number[]> {
-    let aggregate: number[] = [];
-    let totalVectors = 0;
-
-    for (let i = 0; i < chunks.length; i += MAX_EMBEDDING_INPUTS) {
-      const batch = chunks.slice(i, i + MAX_EMBEDDING_INPUTS);
-      const vectors = await this.embedDocuments(batch, options);
-      for (const vector of vectors) {
-        if (aggregate.length === 0) {
-          aggregate = new Array(vector.length).fill(0);
-        }
-        for (let j = 0; j < vector.length; j += 1) {
-          aggregate[j] += vector[j];
-        }
-        totalVectors += 1;
-      }
-    }
-
-    if (totalVectors === 0) {
-      return [];
-    }
+    const vectors = await this.embedDocuments(chunks, options);
+    return poolChunkEmbeddings(vectors, chunks, this.chunking.pooling);
+  }
 
-    return aggregate.map((value) => value / totalVectors);
+  /**
+   * Splits each document into the pieces sent to the API, applying the oversized
+   * input policy. Under the "chunk" policy, documents longer than the chunk size are
+   * chunked with the configured strategy; other documents map to a single piece.
+   *
+   * @throws {Error} When the policy is "error" and a document is too long
+   */
+  private splitOversizedInputs(documents: string[]): string[][] {
+    return documents.map((document, i) => {
+      const limit =
+        this.oversizedInputs === "chunk"
+          ? this.chunking.chunkSize
+          : MAX_EMBEDDING_CHAR_LENGTH;
+      if (document.length <= limit) {
+        return [document];
+      }
+      switch (this.oversizedInputs) {
+        case "truncate":
+          return [document.slice(0, MAX_EMBEDDING_CHAR_LENGTH)];
+        case "chunk":
+          return chunkTextForEmbeddings(document, this.chunking);
+        default:
+          throw new Error(
+            `String at index ${i} exceeds maximum length of ${MAX_EMBEDDING_CHAR_LENGTH} characters. Received ${document.length} characters.`,
+          );
+      }
+    });
   }
 
   private normalizeEncodingFormatInPlace(params: Record<string, any>): void {
@@ -304,15 +431,13 @@ export class HerokuEmbeddings extends Embeddings {
   }
 
   /**
-   * Makes a request to the Heroku embeddings API with retry logic.
+   * Makes a request to the Heroku embeddings API through the shared transport.
    *
-   * This method handles the actual HTTP request to the Heroku API, including:
-   * - Automatic retries for transient failures (5xx errors, 429 rate limits)
-   * - Exponential backoff with jitter
-   * - Proper error handling and reporting
-   * - Timeout management
+   * Retryable failures (429 rate limits, transient 5xx errors, network errors and
+   * timeouts) are retried with exponential backoff and jitter, honoring Retry-After.
    *
    * @param requestPayload - The complete request payload for the embeddings API
+   * @param signal - Optional caller signal that cancels the request and pending retries
    * @returns Promise resolving to the embeddings API response
    * @throws {HerokuApiError} For API errors or network failures
    *
@@ -320,6 +445,7 @@ export class HerokuEmbeddings extends Embeddings {
    */
   private async makeRequest(
     requestPayload: HerokuEmbeddingsRequest,
+    signal?: AbortSignal,
   ): Promise<HerokuEmbeddingsResponse> {
     const herokuConfig = getHerokuConfigOptionsWithEnvKeys(
       this.apiKey,
@@ -329,80 +455,43 @@ export class HerokuEmbeddings extends Embeddings {
       "EMBEDDING_URL",
     );
 
-    let response: Response | undefined;
-    let attempt = 0;
-    const maxRetries = this.maxRetries;
-    let lastError: Error;
-
-    while (attempt <= maxRetries) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = this.timeout
-          ? setTimeout(() => controller.abort(), this.timeout)
-          : null;
-
-        response = await fetch(herokuConfig.apiUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${herokuConfig.apiKey}`,
-          },
-          body: JSON.stringify(requestPayload),
-          signal: controller.signal,
-        });
-
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-        }
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorData;
-          try {
-            errorData = JSON.parse(errorText);
-          } catch {
-            errorData = { message: errorText };
-          }
-
-          // Enhanced error message for better debugging
-          const errorMessage = `Heroku embeddings API error: ${response.status} ${response.statusText}`;
-          const detailedMessage =
-            errorData.error?.message || errorData.message || errorText;
-
-          const error = new HerokuApiError(
-            `${errorMessage}\nDetails: ${detailedMessage}`,
-            response.status,
-            errorData,
-          );
-
-          throw error;
-        }
-
-        const data: HerokuEmbeddingsResponse = await response.json();
-        return data;
-      } catch (error) {
-        lastError = error as Error;
-
-        // Check if this is a retryable error
-        const isRetryable =
-          error instanceof HerokuApiError &&
-          error.status &&
-          (error.status >= 500 || error.status === 429);
-
-        if (!isRetryable || attempt >= maxRetries) {
-          throw error;
-        }
-
-        // Exponential backoff with jitter
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-        const jitter = Math.random() * 0.1 * delay;
-        await new Promise((resolve) => setTimeout(resolve, delay + jitter));
-
-        attempt++;
-      }
+    this.log.debug(
+      { model: requestPayload.model, inputs: requestPayload.input.length },
+      "Embeddings request",
+    );
+    await loadHerokuTracing();
+    const { span, context: traceContext } = startHerokuOperationSpan(
+      getHerokuTracer(this.tracer),
+      "embeddings",
+      herokuConfig.apiUrl,
+      requestPayload,
+    );
+    try {
+      const response = await postJsonWithRetries(
+        herokuConfig.apiUrl,
+        herokuConfig.apiKey,
+        requestPayload,
+        {
+          maxRetries: this.maxRetries,
+          timeout: this.timeout,
+          signal,
+          headers: this.defaultHeaders,
+          fetch: this.fetchImpl,
+          retryableStatusCodes: this.retryableStatusCodes,
+          hooks: this.transportHooks,
+          tracer: this.tracer,
+          traceContext,
+        },
+      );
+      const data = (await response.json()) as HerokuEmbeddingsResponse;
+      recordHerokuResponse(span, { model: data.model, usage: data.usage });
+      return data;
+    } catch (error) {
+      recordHerokuSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
     }
-
-    throw lastError!;
   }
 
   /**
@@ -433,7 +522,9 @@ export class HerokuEmbeddings extends Embeddings {
    * );
    * ```
    *
-   * @throws {Error} When the text exceeds 2048 characters
+   * Texts longer than the chunk size (2048 characters by default) are split and their
+   * chunk embeddings pooled according to the `chunking` options.
+   *
    * @throws {HerokuApiError} For API-related errors
    */
   async embedQuery(
@@ -445,13 +536,13 @@ export class HerokuEmbeddings extends Embeddings {
       input_type: options?.input_type ?? "search_query",
     };
 
-    if (text.length <= MAX_EMBEDDING_CHAR_LENGTH) {
+    if (text.length <= this.chunking.chunkSize) {
       const embeddings = await this.embedDocuments([text], callOptions);
       return embeddings[0];
     }
 
-    const chunks = this.chunkTextForEmbeddings(text);
-    return this.embedChunksAndAverage(chunks, callOptions);
+    const chunks = chunkTextForEmbeddings(text, this.chunking);
+    return this.embedChunksAndPool(chunks, callOptions);
   }
 
   /**
@@ -459,9 +550,12 @@ export class HerokuEmbeddings extends Embeddings {
    *
    * This method is optimized for embedding multiple documents for indexing or similarity search.
    * It automatically sets the input_type to "search_document" unless overridden in options.
-   * Input validation ensures compliance with API constraints before making any network calls.
+   * Inputs are split into batches of up to 96 strings that run concurrently (bounded by
+   * `maxConcurrency`), and results are returned in input order. Documents over 2048
+   * characters are chunked and pooled (see `chunking`), truncated, or rejected according
+   * to `oversizedInputs`.
    *
-   * @param documents - Array of text documents to embed (max 96 documents, 2048 chars each)
+   * @param documents - Array of text documents to embed
    * @param options - Optional call-time parameters to customize the embedding request
    * @returns Promise resolving to an array of embedding vectors, one per input document
    *
@@ -487,19 +581,190 @@ export class HerokuEmbeddings extends Embeddings {
    * });
    * ```
    *
-   * @throws {Error} When input exceeds API constraints (>96 documents or >2048 chars per document)
+   * @throws {Error} When a document exceeds 2048 characters and `oversizedInputs` is "error"
    * @throws {HerokuApiError} For API-related errors
    */
   async embedDocuments(
     documents: string[],
     options?: HerokuEmbeddingsCallOptions,
   ): Promise<number[][]> {
-    // Validate input constraints immediately to avoid network calls for invalid input
-    this.validateInput(documents);
+    const { pieces, embeddings } = await this.embedPieces(documents, options);
+    return this.groupByDocument(pieces, embeddings).map((vectors, i) =>
+      vectors.length === 1
+        ? vectors[0]
+        : poolChunkEmbeddings(vectors, pieces[i], this.chunking.pooling),
+    );
+  }
+
+  /**
+   * Embeds multiple documents and returns compact typed vectors.
+   *
+   * Works like {@link embedDocuments}, but decodes each embedding into the typed array
+   * matching `embedding_type`, whether the API returned numbers or base64
+   * (`encoding_format: "base64"`):
+   * - "float": `Float32Array`
+   * - "int8": `Int8Array`
+   * - "uint8": `Uint8Array`
+   * - "binary": `Int8Array` of packed bits (8 dimensions per byte)
+   * - "ubinary": `Uint8Array` of packed bits (8 dimensions per byte)
+   *
+   * @param documents - Array of text documents to embed
+   * @param options - Optional call-time parameters to customize the embedding request
+   * @returns Promise resolving to one typed vector per input document
+   *
+   * @example
+   * ```typescript
+   * const vectors = await embeddings.embedDocumentsTyped(documents, {
+   *   embedding_type: "int8",
+   *   encoding_format: "base64",
+   * });
+   * console.log(vectors[0] instanceof Int8Array); // true
+   * ```
+   *
+   * @throws {Error} When a document exceeds 2048 characters and `oversizedInputs` is "error",
+   * or is chunked while requesting a quantized embedding type, whose chunks cannot be pooled
+   * @throws {HerokuApiError} For API-related errors
+   */
+  async embedDocumentsTyped(
+    documents: string[],
+    options?: HerokuEmbeddingsCallOptions,
+  ): Promise<HerokuTypedEmbedding[]> {
+    const { pieces, embeddings, embeddingType } = await this.embedPieces(
+      documents,
+      options,
+    );
+    return this.groupByDocument(pieces, embeddings).map(
+      (documentEmbeddings, i) => {
+        if (documentEmbeddings.length === 1) {
+          return toTypedEmbedding(documentEmbeddings[0], embeddingType);
+        }
+        if (embeddingType !== "float") {
+          throw new Error(
+            `String at index ${i} was split into chunks, which cannot be pooled for embedding_type "${embeddingType}". Use chunking pooling "first", oversizedInputs "truncate", or embedding_type "float".`,
+          );
+        }
+        return Float32Array.from(
+          poolChunkEmbeddings(
+            documentEmbeddings,
+            pieces[i],
+            this.chunking.pooling,
+          ),
+        );
+      },
+    );
+  }
 
-    // Use the inherited AsyncCaller to support callbacks
-    return this.caller.call(async () => {
-      return this._embedDocuments(documents, options);
+  /**
+   * Applies the oversized input policy, then embeds every piece missing from the
+   * cache in concurrent batches and caches the new vectors.
+   *
+   * @internal
+   */
+  private async embedPieces(
+    documents: string[],
+    options?: HerokuEmbeddingsCallOptions,
+  ): Promise<{
+    pieces: string[][];
+    embeddings: number[][];
+    embeddingType: HerokuEmbeddingType;
+  }> {
+    // Apply the oversized input policy before any network calls
+    const pieces = this.splitOversizedInputs(documents);
+    const inputs = pieces.flat();
+    const params = this.invocationParams(options);
+    const embeddingType = params.embedding_type ?? "float";
+
+    const cacheKeys = this.cache
+      ? await Promise.all(
+          inputs.map((text) =>
+            herokuEmbeddingsCacheKey({
+              model: params.model || this.model,
+              inputType: params.input_type ?? "search_document",
+              embeddingType,
+              text,
+            }),
+          ),
+        )
+      : [];
+    const embeddings = await this.readCache(cacheKeys, inputs.length);
+    const misses = inputs.flatMap((_, i) =>
+      embeddings[i] === undefined ? [i] : [],
+    );
+
+    const batches: number[][] = [];
+    for (let i = 0; i < misses.length; i += this.batchSize) {
+      batches.push(misses.slice(i, i + this.batchSize));
+    }
+
+    // The inherited AsyncCaller bounds concurrency (it does not retry)
+    await Promise.all(
+      batches.map(async (batch) => {
+        const texts = batch.map((index) => inputs[index]);
+        this.validateInput(texts);
+        const results = await this.caller.call(async () => {
+          return this._embedDocuments(texts, options);
+        });
+        batch.forEach((index, j) => {
+          embeddings[index] = toNumberEmbedding(results[j], embeddingType);
+        });
+      }),
+    );
+
+    if (misses.length > 0) {
+      await this.writeCache(
+        misses.map((index) => [cacheKeys[index], embeddings[index]!]),
+      );
+    }
+
+    return { pieces, embeddings: embeddings as number[][], embeddingType };
+  }
+
+  /**
+   * Looks the keys up in the cache. A failing store is logged and treated as a
+   * miss for every key, so a cache outage does not stop embedding.
+   *
+   * @internal
+   */
+  private async readCache(
+    keys: string[],
+    count: number,
+  ): Promise<(number[] | undefined)[]> {
+    if (this.cache) {
+      try {
+        return await this.cache.mget(keys);
+      } catch (error) {
+        this.log.warn(
+          { error },
+          "Embeddings cache lookup failed; embedding every input",
+        );
+      }
+    }
+    return new Array(count).fill(undefined);
+  }
+
+  /**
+   * Stores new embeddings in the cache. A failing store is logged and ignored,
+   * since the embeddings were already computed.
+   *
+   * @internal
+   */
+  private async writeCache(entries: [string, number[]][]): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+    try {
+      await this.cache.mset(entries);
+    } catch (error) {
+      this.log.warn({ error }, "Embeddings cache update failed");
+    }
+  }
+
+  private groupByDocument<T>(pieces: string[][], embeddings: T[]): T[][] {
+    let offset = 0;
+    return pieces.map((documentPieces) => {
+      const group = embeddings.slice(offset, offset + documentPieces.length);
+      offset += documentPieces.length;
+      return group;
     });
   }
 
@@ -511,14 +776,14 @@ export class HerokuEmbeddings extends Embeddings {
    *
    * @param documents - Array of validated text documents to embed
    * @param options - Optional call-time parameters
-   * @returns Promise resolving to an array of embedding vectors
+   * @returns Promise resolving to the embeddings as returned by the API, in input order
    *
    * @internal
    */
   private async _embedDocuments(
     documents: string[],
     options?: HerokuEmbeddingsCallOptions,
-  ): Promise<number[][]> {
+  ): Promise<RawEmbedding[]> {
     // Input is already validated in embedDocuments method
 
     const params = this.invocationParams(options);
@@ -536,7 +801,9 @@ export class HerokuEmbeddings extends Embeddings {
         delete requestPayload[key as keyof HerokuEmbeddingsRequest],
     );
 
-    const response = await this.makeRequest(requestPayload);
-    return response.data.map((item) => item.embedding);
+    const response = await this.makeRequest(requestPayload, options?.signal);
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
   }
 }
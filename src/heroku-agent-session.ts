@@ -0,0 +1,141 @@
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  HumanMessage,
+  coerceMessageLikeToMessage,
+} from "@langchain/core/messages";
+import type { HerokuAgent } from "./heroku-agent.js";
+import type { HerokuAgentCallOptions, HerokuAgentEvent } from "./types.js";
+
+/**
+ * Runtime options for a session call; the session supplies `sessionId` itself.
+ */
+export type HerokuAgentSessionCallOptions = Omit<
+  Partial<HerokuAgentCallOptions>,
+  "sessionId"
+>;
+
+function toMessages(input: BaseLanguageModelInput): BaseMessage[] {
+  if (typeof input === "string") {
+    return [new HumanMessage(input)];
+  }
+  if (Array.isArray(input)) {
+    return input.map(coerceMessageLikeToMessage);
+  }
+  return input.toChatMessages();
+}
+
+/**
+ * A conversation with a HerokuAgent that continues in one server-side session.
+ *
+ * Each call takes only the new messages. Once the agent has assigned a session ID
+ * (or one was given to resume), only those messages are sent along with the ID;
+ * until then the conversation so far is resent so the agent keeps its context.
+ * Persist {@link sessionId} to resume the conversation later with
+ * `agent.session(savedId)`.
+ *
+ * @example
+ * ```typescript
+ * const session = agent.session();
+ * await session.invoke("Which dynos are running on my-app?");
+ * const reply = await session.invoke("Restart the web ones.");
+ *
+ * await saveSessionId(session.sessionId);
+ * ```
+ */
+export class HerokuAgentSession {
+  private _sessionId?: string;
+  private history: BaseMessage[] = [];
+
+  /**
+   * @param agent - The agent the conversation is held with
+   * @param sessionId - ID of an existing session to resume
+   */
+  constructor(
+    private agent: HerokuAgent,
+    sessionId?: string,
+  ) {
+    this._sessionId = sessionId;
+  }
+
+  /**
+   * The session ID, once assigned by the agent or given to resume a session.
+   */
+  get sessionId(): string | undefined {
+    return this._sessionId;
+  }
+
+  /**
+   * The messages exchanged through this session object, oldest first. A resumed
+   * session only includes the messages exchanged since it was resumed.
+   */
+  get messages(): BaseMessage[] {
+    return [...this.history];
+  }
+
+  /**
+   * Sends new messages to the agent and returns its reply.
+   *
+   * @param input - The new messages (or a single user prompt)
+   * @param options - Runtime options such as `metadata` and `signal`
+   * @returns The agent's reply, as returned by `HerokuAgent.invoke()`
+   */
+  async invoke(
+    input: BaseLanguageModelInput,
+    options: HerokuAgentSessionCallOptions = {},
+  ): Promise<AIMessageChunk> {
+    const messages = toMessages(input);
+    const response = await this.agent.invoke(this.requestMessages(messages), {
+      ...options,
+      sessionId: this._sessionId,
+    });
+    const sessionId = response.response_metadata?.session_id;
+    if (typeof sessionId === "string") {
+      this._sessionId = sessionId;
+    }
+    this.history.push(...messages, response);
+    return response;
+  }
+
+  /**
+   * Sends new messages to the agent and streams its events, as
+   * `HerokuAgent.streamAgentEvents()` does. The exchange is recorded once the
+   * stream ends.
+   *
+   * @param input - The new messages (or a single user prompt)
+   * @param options - Runtime options such as `metadata` and `signal`
+   * @returns An async generator of {@link HerokuAgentEvent} objects
+   */
+  async *streamAgentEvents(
+    input: BaseLanguageModelInput,
+    options: HerokuAgentSessionCallOptions = {},
+  ): AsyncGenerator<HerokuAgentEvent> {
+    const messages = toMessages(input);
+    for await (const event of this.agent.streamAgentEvents(
+      this.requestMessages(messages),
+      { ...options, sessionId: this._sessionId },
+    )) {
+      if (event.event === "stream.end") {
+        if (event.data.session_id) {
+          this._sessionId = event.data.session_id;
+        }
+        this.history.push(
+          ...messages,
+          new AIMessage({
+            content: (event.data.final_message?.content as string) ?? "",
+          }),
+        );
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * The server holds the history of a known session; otherwise it is resent.
+   */
+  private requestMessages(messages: BaseMessage[]): BaseMessage[] {
+    return this._sessionId ? messages : [...this.history, ...messages];
+  }
+}
@@ -1,10 +1,14 @@
 import { BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
 import {
   BaseMessage,
   AIMessage,
   AIMessageChunk,
   SystemMessage,
+  ToolMessage,
   ToolMessageChunk,
+  UsageMetadata,
+  mergeUsageMetadata,
 } from "@langchain/core/messages";
 import {
   ChatResult,
@@ -21,20 +25,119 @@ import { DynamicStructuredTool, StructuredTool } from "@langchain/core/tools";
 import type { Tool } from "@langchain/core/tools";
 import { z } from "zod";
 import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import type { Context, Span } from "@opentelemetry/api";
 import {
   HerokuAgentFields,
   HerokuAgentCallOptions,
+  HerokuAgentLocalToolsOptions,
+  HerokuToolApprovalPolicy,
+  HerokuToolApprovalRequest,
   HerokuAgentStreamRequest,
+  HerokuAgentToolDefinition,
   HerokuAgentToolErrorEvent,
   HerokuAgentAgentErrorEvent,
+  HerokuAgentEvent,
+  HerokuAgentToolResult,
+  HerokuAgentTranscriptSegment,
+  HerokuChatCompletionUsage,
 } from "./types.js";
 import {
   getHerokuConfigOptions,
   langchainMessagesToHerokuMessages,
-  HerokuApiError,
+  HerokuErrorDetails,
+  HerokuStreamError,
+  getHerokuRequestId,
+  summarizeHerokuRequest,
   parseHerokuSSE,
+  herokuUsageToUsageMetadata,
+  type ParsedSSEEvent,
 } from "./common.js";
 import { HerokuModel } from "./model.js";
+import { ServerToolRunTracker } from "./server-tool-runs.js";
+import { HerokuAgentSession } from "./heroku-agent-session.js";
+import { validateHerokuToolDefinition } from "./heroku-tools.js";
+import { runLocalAgentLoop } from "./local-tools.js";
+import {
+  formatHerokuToolRejection,
+  requestHerokuToolApproval,
+  requiresHerokuToolApproval,
+} from "./tool-approval.js";
+import {
+  getHerokuTracer,
+  recordHerokuResponse,
+  recordHerokuSpanError,
+  endHerokuToolSpan,
+  startHerokuToolSpan,
+} from "./tracing.js";
+import { redactHerokuSecrets, redactHerokuString } from "./redaction.js";
+
+/** A server-side tool call decoded from the agent stream. */
+interface AgentToolCall {
+  id: string;
+  name: string;
+  /** Arguments as sent by the agent (a JSON string) */
+  input: string;
+  /** Parsed arguments, falling back to the tool's runtime_params */
+  args: any;
+  /** Definition of the tool, when the agent was given one by that name */
+  tool?: HerokuAgentToolDefinition;
+}
+
+/**
+ * An agent stream event, decoded once for both `_stream` and `streamAgentEvents`.
+ */
+type AgentStreamEvent =
+  | { type: "session"; sessionId: string }
+  | {
+      type: "completion";
+      /** The first choice, absent for usage-only events */
+      message?: {
+        content: string;
+        toolCalls: AgentToolCall[];
+        finishReason?: string | null;
+      };
+      usage?: HerokuChatCompletionUsage;
+    }
+  | { type: "tool.completion"; call: AgentToolCall; output: string }
+  | {
+      type: "tool.error";
+      id?: string;
+      name?: string;
+      error: unknown;
+      /** Set for a tool rejected by the approval policy, with its arguments */
+      rejected?: boolean;
+      args?: Record<string, any>;
+      tool?: HerokuAgentToolDefinition;
+    }
+  | { type: "agent.error"; message: string; error: HerokuStreamError }
+  | { type: "end"; sessionId?: string };
+
+/**
+ * Arguments of a server-side tool call, falling back to the tool's runtime_params
+ * when the agent sent none.
+ */
+function resolveServerToolArgs(
+  input: unknown,
+  tool?: HerokuAgentToolDefinition,
+): any {
+  let args: any = {};
+  if (typeof input === "string" && input) {
+    try {
+      args = JSON.parse(input);
+    } catch {
+      args = input;
+    }
+  }
+  if (args && Object.keys(args).length > 0) {
+    return args;
+  }
+  return tool?.runtime_params
+    ? {
+        target_app_name: tool.runtime_params.target_app_name,
+        ...tool.runtime_params.tool_params,
+      }
+    : {};
+}
 
 /**
  * **HerokuAgent** - Heroku Managed Inference Agent Integration
@@ -187,6 +290,10 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
   private toolResultQueues: Map<string, any[]> = new Map();
   // Locally bound no-op tools that surface server results
   private _localNoopTools: StructuredTool[] = [];
+  // Stand-in model and tool implementations for local tools mode
+  protected localTools?: HerokuAgentLocalToolsOptions;
+  // Gated tools and how approval is requested
+  protected approvalPolicy?: HerokuToolApprovalPolicy;
 
   /**
    * Returns the LangChain identifier for this agent class.
@@ -235,7 +342,9 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
   constructor(fields?: HerokuAgentFields) {
     super(fields ?? {});
     this.maxTokensPerRequest = fields?.maxTokensPerRequest;
-    this.tools = fields?.tools;
+    this.tools = fields?.tools?.map(validateHerokuToolDefinition);
+    this.localTools = fields?.localTools;
+    this.approvalPolicy = fields?.approvalPolicy;
     // Agent API is always streaming, so set this to true.
     this.streaming = true;
     // Set streamUsage to false so stream() calls _stream() directly to preserve heroku_agent_event
@@ -250,6 +359,85 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
     return "HerokuAgent";
   }
 
+  /**
+   * Expands a HerokuAgent response into LangChain message history.
+   *
+   * Server-side tool executions are rebuilt from the response transcript as an
+   * AIMessage carrying the tool calls (with the assistant text written before them)
+   * followed by one ToolMessage per result, ending with the final assistant reply.
+   * The result can be appended to a LangGraph `messages` state as-is.
+   *
+   * @param message - A message returned by `invoke()` on a HerokuAgent
+   * @returns The message history, or `[message]` when no tools ran on the server
+   *
+   * @example
+   * ```typescript
+   * const callAgent = async (state: typeof MessagesAnnotation.State) => {
+   *   const response = await agent.invoke(state.messages);
+   *   return { messages: HerokuAgent.toMessageHistory(response) };
+   * };
+   * ```
+   */
+  static toMessageHistory(message: BaseMessage): BaseMessage[] {
+    const transcript = message.additional_kwargs?.transcript as
+      | HerokuAgentTranscriptSegment[]
+      | undefined;
+    if (!transcript?.some((segment) => segment.type === "tool_result")) {
+      return [message];
+    }
+
+    const history: BaseMessage[] = [];
+    let text = "";
+    let toolResults: (HerokuAgentToolResult & { tool_call_id: string })[] = [];
+    const flushToolResults = () => {
+      if (toolResults.length === 0) return;
+      history.push(
+        new AIMessage({
+          content: text,
+          tool_calls: toolResults.map((toolResult) => ({
+            id: toolResult.tool_call_id,
+            name: toolResult.tool_name,
+            args: toolResult.args ?? {},
+            type: "tool_call" as const,
+          })),
+        }),
+      );
+      for (const toolResult of toolResults) {
+        history.push(
+          new ToolMessage({
+            content: toolResult.error ?? toolResult.result ?? "",
+            tool_call_id: toolResult.tool_call_id,
+            name: toolResult.tool_name,
+            status: toolResult.error !== undefined ? "error" : "success",
+          }),
+        );
+      }
+      text = "";
+      toolResults = [];
+    };
+
+    for (const segment of transcript) {
+      if (segment.type === "text") {
+        flushToolResults();
+        text += segment.text;
+      } else if (segment.tool_call_id !== undefined) {
+        // A tool rejected before the request was sent never ran, so it has no call
+        const { type: _type, tool_call_id, ...toolResult } = segment;
+        toolResults.push({ ...toolResult, tool_call_id });
+      }
+    }
+    flushToolResults();
+    if (text) {
+      history.push(
+        new AIMessage({
+          content: text,
+          usage_metadata: (message as AIMessage).usage_metadata,
+        }),
+      );
+    }
+    return history;
+  }
+
   /**
    * Get the parameters used to invoke the agent.
    *
@@ -313,10 +501,24 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
     let finalAIMessageChunk: AIMessageChunk | undefined;
     let finish_reason: string | null = null;
     const additional_kwargs: Record<string, any> = {};
-    let tool_calls: any[] = [];
+    const tool_calls: any[] = [];
     let tool_results: any = undefined;
     let sawToolCalls = false;
     let sawToolResults = false;
+    let usageMetadata: UsageMetadata | undefined;
+    let sessionId = options.sessionId;
+    // Every tool execution and the assistant text around it, in stream order
+    const transcript: HerokuAgentTranscriptSegment[] = [];
+    const serverToolResults: HerokuAgentToolResult[] = [];
+    // Streamed text is kept exactly as received
+    const appendText = (text: string) => {
+      const last = transcript[transcript.length - 1];
+      if (last?.type !== "text") {
+        transcript.push({ type: "text", text });
+        return;
+      }
+      last.text += text;
+    };
     const normalizeToolCall = (tc: any) => ({
       id: tc?.id,
       name: tc?.name,
@@ -328,16 +530,19 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
       // Only aggregate textual content from assistant chunks, not tool messages
       if (chunk instanceof AIMessageChunk && chunk.content) {
         // If we've already seen a tool result, only accumulate post-tool assistant text.
+        // Chunks are joined as received, like the transcript.
         const text = typeof chunk.content === "string" ? chunk.content : "";
-        const needsSpace =
-          aggregatedContent.length > 0 &&
-          aggregatedContent[aggregatedContent.length - 1] !== " " &&
-          !text.startsWith(" ");
-        aggregatedContent += needsSpace ? ` ${text}` : text;
+        aggregatedContent += text;
+        if (text) appendText(text);
       }
 
-      // Merge additional_kwargs from chunks (e.g., finish_reason)
-      if (chunk.additional_kwargs) {
+      // Merge additional_kwargs from chunks (e.g., finish_reason). The kwargs of
+      // server tool results and errors describe one tool each, so they are only
+      // kept in server_tool_results rather than overwriting each other here.
+      const isServerToolChunk =
+        chunk.additional_kwargs?.tool_error !== undefined ||
+        chunk.response_metadata?.tool_results !== undefined;
+      if (chunk.additional_kwargs && !isServerToolChunk) {
         Object.assign(additional_kwargs, chunk.additional_kwargs);
         if (
           chunk.additional_kwargs.finish_reason &&
@@ -349,9 +554,26 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
 
       // Extract tool calls and results from response_metadata (this is where Heroku puts them)
       if (chunk.response_metadata) {
+        if (typeof chunk.response_metadata.session_id === "string") {
+          sessionId = chunk.response_metadata.session_id;
+        }
         const toolCalls = (chunk.response_metadata as any).tool_calls;
         if (Array.isArray(toolCalls)) {
-          tool_calls = toolCalls.map(normalizeToolCall);
+          // Keep the calls of every batch; a call reported again (e.g. with its
+          // result) replaces its earlier entry
+          for (const toolCall of toolCalls.map(normalizeToolCall)) {
+            const index =
+              toolCall.id === undefined
+                ? -1
+                : tool_calls.findIndex(
+                    (existing) => existing.id === toolCall.id,
+                  );
+            if (index === -1) {
+              tool_calls.push(toolCall);
+            } else {
+              tool_calls[index] = toolCall;
+            }
+          }
           if (tool_calls.length > 0) sawToolCalls = true;
         }
         if ((chunk.response_metadata as any).tool_results !== undefined) {
@@ -365,11 +587,41 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
               }
             : tr;
           sawToolResults = true;
+          if (tr) {
+            const toolResult: HerokuAgentToolResult = {
+              tool_call_id: tr.tool_call_id,
+              tool_name: tr.tool_name,
+              args: tr.args,
+              result: tr.result,
+            };
+            serverToolResults.push(toolResult);
+            transcript.push({ type: "tool_result", ...toolResult });
+          }
           // Reset aggregation after tool results to capture only final assistant reply.
+          // Earlier assistant text is kept in the transcript.
           aggregatedContent = "";
         }
       }
 
+      if (chunk.additional_kwargs?.tool_error !== undefined) {
+        const toolError: HerokuAgentToolResult = {
+          tool_call_id: chunk.additional_kwargs.tool_id as string,
+          tool_name: chunk.additional_kwargs.tool_name as string,
+          args: (chunk.additional_kwargs.tool_args ??
+            chunk.additional_kwargs.runtime_params) as
+            | Record<string, any>
+            | undefined,
+          error: String(chunk.additional_kwargs.tool_error),
+        };
+        serverToolResults.push(toolError);
+        transcript.push({ type: "tool_result", ...toolError });
+      }
+
+      // The agent may run several inference requests, so usage is summed
+      if (chunk instanceof AIMessageChunk && chunk.usage_metadata) {
+        usageMetadata = mergeUsageMetadata(usageMetadata, chunk.usage_metadata);
+      }
+
       if (chunk instanceof AIMessageChunk) {
         finalAIMessageChunk = chunk;
       }
@@ -398,8 +650,13 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
         ...additional_kwargs,
         tool_calls: toolCallsForTrace,
         tool_results: toolResultsForTrace,
+        server_tool_results:
+          serverToolResults.length > 0 ? serverToolResults : undefined,
+        transcript: transcript.length > 0 ? transcript : undefined,
         server_side_tools_executed: sawToolResults || false,
       },
+      response_metadata: sessionId ? { session_id: sessionId } : {},
+      usage_metadata: usageMetadata,
     });
 
     const generation: ChatGeneration = {
@@ -425,20 +682,30 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
     };
   }
 
-  async *_stream(
+  /**
+   * Builds the agent API config and streaming request payload for the given messages
+   * and tools (the agent's tools by default).
+   *
+   * @internal
+   */
+  private buildStreamRequest(
     messages: BaseMessage[],
-    options: this["ParsedCallOptions"],
-    runManager?: CallbackManagerForLLMRun,
-  ): AsyncGenerator<AIMessageChunk | ToolMessageChunk> {
+    options: Partial<HerokuAgentCallOptions>,
+    tools = this.tools,
+  ) {
     const agentApiEndpoint = "/v1/agents/heroku";
 
+    // No request is sent in local tools mode, so no API key is needed
     const herokuConfig = getHerokuConfigOptions(
-      this.apiKey,
+      this.localTools ? (this.apiKey ?? "local") : this.apiKey,
       this.apiUrl,
       agentApiEndpoint,
     );
 
-    const herokuMessages = langchainMessagesToHerokuMessages(messages);
+    const herokuMessages = langchainMessagesToHerokuMessages(
+      messages,
+      this.log,
+    );
     const params = this.invocationParams({
       ...options,
       stream: true,
@@ -451,349 +718,672 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
       max_tokens_per_inference_request: params.max_tokens_per_inference_request,
       stop: params.stop,
       top_p: params.top_p,
-      tools: this.tools,
+      // input_schema is client-side only
+      tools: tools?.map(({ input_schema: _schema, ...tool }) => tool),
       metadata: params.metadata,
       session_id: params.sessionId,
       ...params.additionalKwargs,
     };
     this.cleanUndefined(requestPayload as any);
+    return { herokuConfig, requestPayload };
+  }
+
+  /**
+   * Asks the approval policy about each gated tool before the request is sent, so
+   * the agent is only given the tools that were approved.
+   *
+   * @returns The approved tools, and the request and error message of each
+   * rejected tool
+   * @throws The interrupt raised by the policy, e.g. LangGraph's GraphInterrupt
+   *
+   * @internal
+   */
+  private async approveTools(): Promise<{
+    tools?: HerokuAgentToolDefinition[];
+    rejections: { request: HerokuToolApprovalRequest; message: string }[];
+  }> {
+    if (!this.approvalPolicy || !this.tools) {
+      return { tools: this.tools, rejections: [] };
+    }
+    const tools: HerokuAgentToolDefinition[] = [];
+    const rejections: {
+      request: HerokuToolApprovalRequest;
+      message: string;
+    }[] = [];
+    for (const tool of this.tools) {
+      const request: HerokuToolApprovalRequest = {
+        type: "heroku_tool_approval",
+        tool_name: tool.name,
+        tool_type: tool.type,
+        args: resolveServerToolArgs(undefined, tool),
+      };
+      if (!requiresHerokuToolApproval(this.approvalPolicy, request)) {
+        tools.push(tool);
+        continue;
+      }
+      const { approved, reason } = await requestHerokuToolApproval(
+        this.approvalPolicy,
+        request,
+      );
+      this.log.info(
+        { toolName: request.tool_name, approved },
+        "Tool approval decided",
+      );
+      if (approved) {
+        tools.push(tool);
+      } else {
+        rejections.push({
+          request,
+          message: formatHerokuToolRejection(request, reason),
+        });
+      }
+    }
+    return { tools, rejections };
+  }
+
+  /**
+   * Sends the request to the agent endpoint and returns its parsed SSE events. In
+   * local tools mode the tool loop runs in-process instead and yields the same events.
+   *
+   * @internal
+   */
+  private async openAgentEventStream(
+    herokuConfig: { apiUrl: string; apiKey: string },
+    requestPayload: HerokuAgentStreamRequest,
+    messages: BaseMessage[],
+    tools: HerokuAgentToolDefinition[] = [],
+    signal?: AbortSignal,
+    traceContext?: Context,
+  ): Promise<{
+    events: AsyncIterable<ParsedSSEEvent>;
+    errorDetails: HerokuErrorDetails;
+  }> {
+    if (this.localTools) {
+      return {
+        events: runLocalAgentLoop(this.localTools, tools, messages, signal),
+        errorDetails: {
+          model: requestPayload.model,
+          request: summarizeHerokuRequest(herokuConfig.apiUrl, requestPayload),
+        },
+      };
+    }
+
     const response = await this.postWithRetries(
       herokuConfig.apiUrl,
       herokuConfig.apiKey,
       requestPayload as any,
+      signal,
+      traceContext,
     );
+    const errorDetails: HerokuErrorDetails = {
+      requestId: getHerokuRequestId(response),
+      model: requestPayload.model,
+      request: summarizeHerokuRequest(herokuConfig.apiUrl, requestPayload),
+    };
     if (!response.body) {
-      throw new HerokuApiError(
+      throw new HerokuStreamError(
         "Failed to get a streaming body from Heroku Agent API.",
         response.status,
+        undefined,
+        errorDetails,
       );
     }
+    return {
+      events: parseHerokuSSE(response.body, undefined, undefined, {
+        signal,
+        idleTimeout: this.streamIdleTimeout,
+        logger: this.log,
+      }),
+      errorDetails,
+    };
+  }
 
+  /**
+   * Runs the agent and decodes its event stream, once for both `_stream` and
+   * `streamAgentEvents`. Spans and server tool runs are recorded here.
+   *
+   * Data that is not valid JSON is logged and skipped. An `agent.error` ends the
+   * stream with an `agent.error` event carrying the error; otherwise the stream
+   * ends with an `end` event.
+   *
+   * @throws The interrupt raised by the approval policy, before anything is sent
+   *
+   * @internal
+   */
+  private async *runAgentEvents(
+    messages: BaseMessage[],
+    options: Partial<HerokuAgentCallOptions>,
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<AgentStreamEvent> {
+    const { tools, rejections } = await this.approveTools();
+    const { herokuConfig, requestPayload } = this.buildStreamRequest(
+      messages,
+      options,
+      tools,
+    );
+    const tracer = getHerokuTracer(this.tracer);
+    const { span, context: traceContext } = await this.startOperationSpan(
+      "invoke_agent",
+      herokuConfig.apiUrl,
+      requestPayload,
+    );
+    const toolRuns = new ServerToolRunTracker(runManager);
+    // Tool spans by call ID, open from the tool call until its result arrives
+    const toolSpans = new Map<string, Span>();
+    const endToolSpan = (
+      tool: { id?: string; name?: string; type?: string },
+      error?: unknown,
+    ) => {
+      const toolSpan =
+        toolSpans.get(tool.id ?? "") ??
+        startHerokuToolSpan(tracer, traceContext, tool);
+      toolSpans.delete(tool.id ?? "");
+      endHerokuToolSpan(toolSpan, error);
+    };
+    // The agent makes several inference requests; the span reports their total usage
+    const spanUsage = { prompt_tokens: 0, completion_tokens: 0 };
+    let sessionId = requestPayload.session_id;
+    const findTool = (name?: string) =>
+      this.tools?.find((tool) => tool.name === name);
     try {
-      for await (const parsedEvent of parseHerokuSSE(response.body)) {
-        // Handle [DONE] signal if it comes as plain text data
+      for (const { request, message } of rejections) {
+        yield {
+          type: "tool.error",
+          name: request.tool_name,
+          error: message,
+          args: request.args,
+          tool: findTool(request.tool_name),
+          rejected: true,
+        };
+      }
+
+      const { events, errorDetails } = await this.openAgentEventStream(
+        herokuConfig,
+        requestPayload,
+        messages,
+        tools,
+        options.signal,
+        traceContext,
+      );
+
+      for await (const parsedEvent of events) {
+        if (!parsedEvent.data) {
+          continue;
+        }
         if (parsedEvent.data === "[DONE]") {
-          return; // End the generator - BaseChatModel will handle LLM end
+          break;
         }
 
-        let eventDataJSON: any;
+        let data: any;
         try {
-          eventDataJSON = parsedEvent.data ? JSON.parse(parsedEvent.data) : {};
-        } catch (e) {
-          if (parsedEvent.data?.includes("[DONE]")) {
-            return;
+          data = JSON.parse(parsedEvent.data);
+        } catch {
+          if (parsedEvent.data.includes("[DONE]")) {
+            break;
           }
-          runManager?.handleLLMError(
-            new HerokuApiError(
-              "Invalid JSON in agent stream event",
-              undefined,
-              { event: parsedEvent.event, data: parsedEvent.data },
-            ),
+          this.log.warn(
+            { event: parsedEvent.event, data: parsedEvent.data },
+            "Skipping invalid JSON in agent stream event",
           );
           continue;
         }
 
-        // Determine the Heroku event type from the 'object' field in the data
-        const herokuEventType = eventDataJSON.object;
-
-        // Skip events without a proper object type
-        if (!herokuEventType) {
-          continue;
+        // Surface a session ID assigned (or changed) by the server once
+        if (
+          typeof data.session_id === "string" &&
+          data.session_id !== sessionId
+        ) {
+          sessionId = data.session_id as string;
+          yield { type: "session", sessionId };
         }
 
-        switch (herokuEventType) {
-          case "chat.completion": // Non-streaming chat completion
-          case "chat.completion.chunk": // Streaming chat completion chunk
-            if (eventDataJSON.choices && eventDataJSON.choices.length > 0) {
-              const choice = eventDataJSON.choices[0];
-              const delta = choice.delta || choice.message;
-              let content = "";
-
-              if (delta.content) {
-                content = delta.content as string;
-                runManager?.handleLLMNewToken(content);
-              }
+        switch (data.object) {
+          case undefined:
+          case null:
+            // Skip events without a proper object type
+            break;
 
-              // Build response metadata for tool calls if present
-              const response_metadata: Record<string, any> = {
-                finish_reason: choice.finish_reason,
-              };
-
-              let mappedToolCalls: any[] | undefined = undefined;
-              // Check for tool calls in delta and add to response metadata
-              if (delta.tool_calls && delta.tool_calls.length > 0) {
-                mappedToolCalls = delta.tool_calls.map((tc: any) => {
-                  let parsedArgs: any = {};
-                  if (tc.function?.arguments) {
-                    try {
-                      parsedArgs = JSON.parse(tc.function.arguments);
-                    } catch {
-                      parsedArgs = tc.function.arguments;
-                    }
-                  }
+          case "chat.completion": // Non-streaming chat completion
+          case "chat.completion.chunk": {
+            // Streaming chat completion chunk
+            spanUsage.prompt_tokens += data.usage?.prompt_tokens ?? 0;
+            spanUsage.completion_tokens += data.usage?.completion_tokens ?? 0;
+            recordHerokuResponse(span, {
+              id: data.id,
+              model: data.model,
+              finishReasons: data.choices?.map(
+                (choice: any) => choice.finish_reason,
+              ),
+              usage: data.usage ? spanUsage : undefined,
+            });
 
-                  if (!parsedArgs || Object.keys(parsedArgs).length === 0) {
-                    const originalTool = this.tools?.find((tool: any) => {
-                      if (
-                        (tool.type === "heroku_tool" || tool.type === "mcp") &&
-                        tool.name === tc.function?.name
-                      ) {
-                        return true;
-                      }
-                      return false;
-                    });
-                    if (
-                      originalTool?.type === "heroku_tool" &&
-                      originalTool.runtime_params
-                    ) {
-                      parsedArgs = {
-                        target_app_name:
-                          originalTool.runtime_params.target_app_name,
-                        ...originalTool.runtime_params.tool_params,
-                      };
-                    }
-                  }
+            const choice = data.choices?.[0];
+            const delta = choice?.delta || choice?.message;
+            const toolCalls: AgentToolCall[] = (delta?.tool_calls ?? []).map(
+              (toolCall: any) => {
+                const tool = findTool(toolCall.function?.name);
+                return {
+                  id: toolCall.id,
+                  name: toolCall.function?.name,
+                  input: toolCall.function?.arguments ?? "",
+                  args: resolveServerToolArgs(
+                    toolCall.function?.arguments,
+                    tool,
+                  ),
+                  tool,
+                };
+              },
+            );
+            // Report the server-side tool calls as tool runs and spans
+            for (const toolCall of toolCalls) {
+              if (toolCall.id !== undefined && !toolSpans.has(toolCall.id)) {
+                toolSpans.set(
+                  toolCall.id,
+                  startHerokuToolSpan(tracer, traceContext, {
+                    id: toolCall.id,
+                    name: toolCall.name,
+                    type: toolCall.tool?.type,
+                  }),
+                );
+              }
+              await toolRuns.start({
+                id: toolCall.id,
+                name: toolCall.name,
+                args: toolCall.args,
+                type: toolCall.tool?.type,
+              });
+            }
 
-                  return {
-                    id: tc.id,
-                    name: tc.function?.name,
-                    args: parsedArgs,
-                    type: "tool_call" as const,
-                  };
-                });
-                response_metadata.tool_calls = mappedToolCalls;
-
-                // Notify callback manager about tool calls for tracing
-                for (const toolCall of delta.tool_calls) {
-                  if (runManager && toolCall.function?.name) {
-                    // Find the original tool for enhanced logging
-                    const originalTool = this.tools?.find((tool: any) => {
-                      if (
-                        (tool.type === "heroku_tool" || tool.type === "mcp") &&
-                        tool.name === toolCall.function?.name
-                      ) {
-                        return true;
-                      }
-                      return false;
-                    });
-
-                    let logMessage = `\n[Tool Call: ${toolCall.function.name}]`;
-                    if (
-                      originalTool?.type === "heroku_tool" &&
-                      originalTool.runtime_params
-                    ) {
-                      logMessage += `\n  Runtime Params: ${JSON.stringify(originalTool.runtime_params, null, 2)}`;
-                    }
-                    if (originalTool?.type === "mcp") {
-                      logMessage += `\n  Type: MCP Tool`;
-                    }
-                    logMessage += `\n`;
-
-                    await runManager.handleLLMNewToken(logMessage);
+            yield {
+              type: "completion",
+              message: choice
+                ? {
+                    content: delta?.content ?? "",
+                    toolCalls,
+                    finishReason: choice.finish_reason,
                   }
-                }
-              }
+                : undefined,
+              usage: data.usage,
+            };
+            break;
+          }
 
-              yield new AIMessageChunk({
-                content: content,
-                tool_calls: mappedToolCalls,
-                additional_kwargs: {
-                  finish_reason: choice.finish_reason,
-                  tool_calls: mappedToolCalls,
-                },
-                response_metadata,
-              });
+          case "tool.completion": {
+            // Tool execution result
+            const toolMessage = data.choices?.[0]?.message;
+            if (!toolMessage) {
+              break;
             }
+            const tool = findTool(toolMessage.name);
+            const call: AgentToolCall = {
+              id: toolMessage.tool_call_id,
+              name: toolMessage.name,
+              input: toolMessage.arguments ?? "",
+              args: resolveServerToolArgs(toolMessage.arguments, tool),
+              tool,
+            };
+            endToolSpan({ id: call.id, name: call.name, type: tool?.type });
+            await toolRuns.end(
+              {
+                id: call.id,
+                name: call.name,
+                args: call.args,
+                type: tool?.type,
+              },
+              toolMessage.content,
+            );
+            yield {
+              type: "tool.completion",
+              call,
+              output: toolMessage.content,
+            };
             break;
+          }
 
-          case "tool.completion": // Tool execution result
-            const toolCompletionData = eventDataJSON.choices?.[0]?.message;
-
-            if (toolCompletionData) {
-              // Find the original tool definition for enhanced logging
-              const originalTool = this.tools?.find((tool: any) => {
-                if (
-                  tool.type === "heroku_tool" &&
-                  tool.name === toolCompletionData.name
-                ) {
-                  return true;
-                }
-                if (
-                  tool.type === "mcp" &&
-                  tool.name === toolCompletionData.name
-                ) {
-                  return true;
-                }
-                return false;
-              });
+          case "tool.error": {
+            // Tool execution error
+            const toolError = data as HerokuAgentToolErrorEvent["data"];
+            const tool = findTool(toolError.name);
+            endToolSpan(
+              { id: toolError.id, name: toolError.name, type: tool?.type },
+              toolError.error,
+            );
 
-              // Try to surface the args that were used server-side
-              let toolArgs: any = {};
-              if (typeof (toolCompletionData as any).arguments === "string") {
-                try {
-                  toolArgs = JSON.parse((toolCompletionData as any).arguments);
-                } catch {
-                  toolArgs = (toolCompletionData as any).arguments;
-                }
-              }
+            let errorMessage = `Tool '${toolError.name || toolError.id}' failed: ${redactHerokuString(String(toolError.error))}`;
+            if (tool?.type === "heroku_tool" && tool.runtime_params) {
+              errorMessage += `\n  Runtime Params: ${JSON.stringify(redactHerokuSecrets(tool.runtime_params), null, 2)}`;
+            }
+            await toolRuns.error(
+              { id: toolError.id, name: toolError.name, type: tool?.type },
+              new Error(errorMessage),
+            );
 
-              // If arguments aren't present, fall back to the server tool definition
-              const toolCallSummary = {
-                id: toolCompletionData.tool_call_id,
-                name: toolCompletionData.name,
-                args:
-                  Object.keys(toolArgs || {}).length > 0
-                    ? toolArgs
-                    : originalTool?.runtime_params
-                      ? {
-                          target_app_name:
-                            originalTool.runtime_params.target_app_name,
-                          ...originalTool.runtime_params.tool_params,
-                        }
-                      : {},
-                type: "tool_call" as const,
-              };
-
-              // Queue server tool result by tool name for local no-op tools to consume
-              try {
-                this.enqueueServerToolResult(
-                  toolCompletionData.name,
-                  toolCompletionData.content,
-                );
-              } catch {}
-
-              // Notify callback manager about tool result for tracing
-              if (
-                runManager &&
-                toolCompletionData.name &&
-                toolCompletionData.content
-              ) {
-                let logMessage = `\n[Tool Result: ${toolCompletionData.name}]`;
-                if (
-                  originalTool?.type === "heroku_tool" &&
-                  originalTool.runtime_params
-                ) {
-                  logMessage += `\n  Runtime Params: ${JSON.stringify(originalTool.runtime_params, null, 2)}`;
-                }
-                logMessage += `\n  Result: ${toolCompletionData.content}\n`;
-
-                await runManager.handleLLMNewToken(logMessage);
-              }
+            yield {
+              type: "tool.error",
+              id: toolError.id,
+              name: toolError.name,
+              error: toolError.error,
+              tool,
+            };
+            break;
+          }
 
-              const response_metadata: Record<string, any> = {
-                tool_results: {
-                  tool_call_id: toolCompletionData.tool_call_id,
-                  tool_name: toolCompletionData.name,
-                  result: toolCompletionData.content,
-                  args: toolCallSummary.args,
-                },
-                tool_calls: [toolCallSummary],
-              };
-
-              const toolMessageChunk = new ToolMessageChunk({
-                // Keep tool result available to consumers without adding to assistant text output
-                content: "",
-                tool_call_id: toolCompletionData.tool_call_id,
-              });
+          case "agent.error": {
+            const agentError = data as HerokuAgentAgentErrorEvent["data"];
+            const error = new HerokuStreamError(
+              `Agent error: ${agentError.message}`,
+              undefined,
+              agentError,
+              errorDetails,
+            );
+            recordHerokuSpanError(span, error);
+            yield { type: "agent.error", message: agentError.message, error };
+            return;
+          }
+
+          default:
+            this.log.warn(
+              { eventType: data.object, data },
+              `Unknown Heroku Agent event object type: ${data.object}`,
+            );
+            break;
+        }
+      }
 
-              // Emit ToolMessageChunk for tracing/consumers
-              yield toolMessageChunk;
+      yield { type: "end", sessionId };
+    } catch (error) {
+      recordHerokuSpanError(span, error);
+      throw error;
+    } finally {
+      await toolRuns.abandon();
+      for (const toolSpan of toolSpans.values()) {
+        endHerokuToolSpan(
+          toolSpan,
+          "Agent stream ended before the tool returned a result",
+        );
+      }
+      span.end();
+    }
+  }
 
-              // Also emit a lightweight AIMessageChunk carrying metadata for upstream aggregation
+  async *_stream(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<AIMessageChunk | ToolMessageChunk> {
+    for await (const event of this.runAgentEvents(
+      messages,
+      options,
+      runManager,
+    )) {
+      switch (event.type) {
+        case "session":
+          yield new AIMessageChunk({
+            content: "",
+            response_metadata: { session_id: event.sessionId },
+          });
+          break;
+
+        case "completion": {
+          const usageMetadata = herokuUsageToUsageMetadata(event.usage);
+          if (!event.message) {
+            if (usageMetadata) {
               yield new AIMessageChunk({
                 content: "",
-                tool_calls: [toolCallSummary],
-                additional_kwargs: {
-                  tool_call_id: toolCompletionData.tool_call_id,
-                  tool_name: toolCompletionData.name,
-                  tool_result: toolCompletionData.content,
-                },
-                response_metadata,
+                usage_metadata: usageMetadata,
               });
             }
             break;
+          }
 
-          case "tool.error": // Tool execution error
-            const toolErrorData =
-              eventDataJSON as HerokuAgentToolErrorEvent["data"];
-
-            // Find the original tool definition for enhanced error context
-            const originalErrorTool = this.tools?.find((tool: any) => {
-              if (
-                tool.type === "heroku_tool" &&
-                tool.name === toolErrorData.name
-              ) {
-                return true;
-              }
-              if (tool.type === "mcp" && tool.name === toolErrorData.name) {
-                return true;
-              }
-              return false;
-            });
-
-            let errorMessage = `Tool '${toolErrorData.name || toolErrorData.id}' failed: ${toolErrorData.error}`;
-            if (
-              originalErrorTool?.type === "heroku_tool" &&
-              originalErrorTool.runtime_params
-            ) {
-              errorMessage += `\n  Runtime Params: ${JSON.stringify(originalErrorTool.runtime_params, null, 2)}`;
-            }
+          const { content, toolCalls, finishReason } = event.message;
+          if (content) {
+            runManager?.handleLLMNewToken(content);
+          }
 
-            runManager?.handleLLMError(new Error(errorMessage));
+          // Build response metadata for tool calls if present
+          const response_metadata: Record<string, any> = {
+            finish_reason: finishReason,
+          };
+          const mappedToolCalls: any[] | undefined =
+            toolCalls.length > 0
+              ? toolCalls.map((toolCall) => ({
+                  id: toolCall.id,
+                  name: toolCall.name,
+                  args: toolCall.args,
+                  type: "tool_call" as const,
+                }))
+              : undefined;
+          if (mappedToolCalls) {
+            response_metadata.tool_calls = mappedToolCalls;
+          }
 
-            const errorAdditionalKwargs: Record<string, any> = {
-              tool_error: toolErrorData.error,
-              tool_id: toolErrorData.id,
-              tool_name: toolErrorData.name,
-            };
+          yield new AIMessageChunk({
+            content,
+            tool_calls: mappedToolCalls,
+            additional_kwargs: {
+              finish_reason: finishReason,
+              tool_calls: mappedToolCalls,
+            },
+            response_metadata,
+            usage_metadata: usageMetadata,
+          });
+          break;
+        }
 
-            // Include original tool definition in error context
-            if (originalErrorTool) {
-              errorAdditionalKwargs.original_tool_definition =
-                originalErrorTool;
-              if (
-                originalErrorTool.type === "heroku_tool" &&
-                originalErrorTool.runtime_params
-              ) {
-                errorAdditionalKwargs.runtime_params =
-                  originalErrorTool.runtime_params;
-              }
-            }
+        case "tool.completion": {
+          const { call, output } = event;
+          const toolCallSummary = {
+            id: call.id,
+            name: call.name,
+            args: call.args,
+            type: "tool_call" as const,
+          };
+
+          // Queue server tool result by tool name for local no-op tools to consume
+          try {
+            this.enqueueServerToolResult(call.name, output);
+          } catch {}
+
+          // Emit ToolMessageChunk for tracing/consumers, keeping the tool result
+          // available without adding it to the assistant text output
+          yield new ToolMessageChunk({
+            content: "",
+            tool_call_id: call.id,
+          });
+
+          // Also emit a lightweight AIMessageChunk carrying metadata for upstream aggregation
+          yield new AIMessageChunk({
+            content: "",
+            tool_calls: [toolCallSummary],
+            additional_kwargs: {
+              tool_call_id: call.id,
+              tool_name: call.name,
+              tool_result: output,
+            },
+            response_metadata: {
+              tool_results: {
+                tool_call_id: call.id,
+                tool_name: call.name,
+                result: output,
+                args: call.args,
+              },
+              tool_calls: [toolCallSummary],
+            },
+          });
+          break;
+        }
 
-            yield new AIMessageChunk({
-              content: "",
-              additional_kwargs: errorAdditionalKwargs,
-            });
-            break;
+        case "tool.error": {
+          const errorAdditionalKwargs: Record<string, any> = {
+            tool_error: redactHerokuSecrets(event.error),
+            tool_id: event.id,
+            tool_name: event.name,
+          };
+          if (event.rejected) {
+            errorAdditionalKwargs.tool_args = redactHerokuSecrets(event.args);
+            errorAdditionalKwargs.tool_rejected = true;
+          }
 
-          case "agent.error": // Agent error
-            const agentErrorData =
-              eventDataJSON as HerokuAgentAgentErrorEvent["data"];
-            runManager?.handleLLMError(
-              new Error(`Agent error: ${agentErrorData.message}`),
-            );
-            throw new HerokuApiError(
-              `Agent error: ${agentErrorData.message}`,
-              undefined,
-              agentErrorData,
-            );
+          // Include original tool definition in error context
+          if (event.tool) {
+            errorAdditionalKwargs.original_tool_definition =
+              redactHerokuSecrets(event.tool);
+            if (
+              event.tool.type === "heroku_tool" &&
+              event.tool.runtime_params
+            ) {
+              errorAdditionalKwargs.runtime_params = redactHerokuSecrets(
+                event.tool.runtime_params,
+              );
+            }
+          }
 
-          default:
-            console.warn(
-              `Unknown Heroku Agent event object type: ${herokuEventType}`,
-              eventDataJSON,
-            );
-            break;
+          yield new AIMessageChunk({
+            content: "",
+            additional_kwargs: errorAdditionalKwargs,
+          });
+          break;
         }
+
+        case "agent.error":
+          throw event.error;
       }
-    } catch (streamError: any) {
-      if (runManager) {
-        await runManager.handleLLMError(streamError);
+    }
+  }
+
+  /**
+   * Streams what the agent is doing as typed events instead of message chunks.
+   *
+   * Each event is discriminated by `event`: `message.delta` for assistant text,
+   * `tool.call` when the agent requests a server-side tool, `tool.completion` and
+   * `tool.error` for its outcome, `usage` for the token usage of each inference
+   * request, and `stream.end` (with the final assistant message) once the agent is
+   * done. An `agent.error` event ends the stream without a `stream.end`.
+   *
+   * The events are decoded as for `invoke()` and `stream()`: data that is not
+   * valid JSON is skipped, and an agent error ends the stream (where `stream()`
+   * throws it instead).
+   *
+   * @param input - The conversation, as messages or any LangChain model input
+   * @param options - Runtime options such as `sessionId`, `metadata`, and `signal`
+   * @returns An async generator of {@link HerokuAgentEvent} objects
+   * @throws {HerokuApiError} When the request fails
+   *
+   * @example
+   * ```typescript
+   * for await (const event of agent.streamAgentEvents("Restart my web dynos")) {
+   *   switch (event.event) {
+   *     case "message.delta":
+   *       process.stdout.write(event.data.delta);
+   *       break;
+   *     case "tool.call":
+   *       console.log(`Running ${event.data.name}...`);
+   *       break;
+   *     case "tool.completion":
+   *       console.log(`${event.data.name} finished`);
+   *       break;
+   *   }
+   * }
+   * ```
+   */
+  async *streamAgentEvents(
+    input: BaseLanguageModelInput,
+    options: Partial<HerokuAgentCallOptions> = {},
+  ): AsyncGenerator<HerokuAgentEvent> {
+    const messages =
+      HerokuAgent._convertInputToPromptValue(input).toChatMessages();
+
+    let finalContent = "";
+    for await (const event of this.runAgentEvents(messages, options)) {
+      switch (event.type) {
+        case "completion":
+          if (event.message?.content) {
+            finalContent += event.message.content;
+            yield {
+              event: "message.delta",
+              data: { delta: event.message.content },
+            };
+          }
+          for (const toolCall of event.message?.toolCalls ?? []) {
+            yield {
+              event: "tool.call",
+              data: {
+                id: toolCall.id,
+                name: toolCall.name,
+                input: toolCall.input,
+              },
+            };
+          }
+          if (event.usage) {
+            yield { event: "usage", data: event.usage };
+          }
+          break;
+
+        case "tool.completion":
+          yield {
+            event: "tool.completion",
+            data: {
+              id: event.call.id,
+              name: event.call.name,
+              output: event.output,
+            },
+          };
+          break;
+
+        case "tool.error":
+          yield {
+            event: "tool.error",
+            data: {
+              id: event.id,
+              name: event.name,
+              error: redactHerokuString(String(event.error)),
+            },
+          };
+          break;
+
+        case "agent.error":
+          yield {
+            event: "agent.error",
+            data: {
+              message: redactHerokuString(String(event.message)),
+            },
+          };
+          return;
+
+        case "end":
+          yield {
+            event: "stream.end",
+            data: {
+              final_message: { role: "assistant", content: finalContent },
+              ...(event.sessionId ? { session_id: event.sessionId } : {}),
+            },
+          };
+          break;
       }
-      throw streamError;
     }
   }
 
+  /**
+   * Starts (or resumes) a conversation that continues in one server-side session.
+   *
+   * The session reuses the session ID the agent assigns and sends only the new
+   * messages of each turn; see {@link HerokuAgentSession}.
+   *
+   * @param sessionId - ID of an existing session to resume, e.g. one persisted
+   * from `session.sessionId`
+   * @returns A session bound to this agent
+   *
+   * @example
+   * ```typescript
+   * const session = agent.session(savedSessionId);
+   * const reply = await session.invoke("Scale web to 2 dynos");
+   * ```
+   */
+  session(sessionId?: string): HerokuAgentSession {
+    return new HerokuAgentSession(this, sessionId);
+  }
+
   /**
    * LangChain streaming hook. Wraps `_stream` to emit ChatGenerationChunk objects
    * so BaseChatModel.stream() stays on the streaming path.
@@ -819,6 +1409,8 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
 
   /**
    * Bind agent tools (heroku_tool or mcp) to this instance.
+   *
+   * @throws {Error} When a heroku_tool has invalid runtime_params
    */
   bindTools(tools: any[]): HerokuAgent {
     // Merge and deduplicate server-side tool definitions by type+name
@@ -844,8 +1436,18 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
       apiUrl: this.apiUrl,
       maxRetries: this.maxRetries,
       timeout: this.timeout,
+      streamIdleTimeout: this.streamIdleTimeout,
       tools: deduped,
       additionalKwargs: this.additionalKwargs,
+      localTools: this.localTools,
+      approvalPolicy: this.approvalPolicy,
+      fetch: this.fetchImpl,
+      defaultHeaders: this.defaultHeaders,
+      retryableStatusCodes: this.retryableStatusCodes,
+      transportHooks: this.transportHooks,
+      tracer: this.tracer,
+      logger: this.logger,
+      logLevel: this.logLevel,
     });
     // Build local no-op tool wrappers that return server results
     const incomingForNoops = Array.isArray(tools) ? tools : [];
@@ -859,7 +1461,7 @@ export class HerokuAgent extends HerokuModel<HerokuAgentCallOptions> {
       .map((t: any) => {
         const name = t.name as string;
         // Try to infer schema from heroku_tool.runtime_params.tool_params.parameters
-        let schema: any = undefined;
+        let schema: any = t.input_schema;
         if (
           t.type === "heroku_tool" &&
           t.runtime_params?.tool_params?.parameters
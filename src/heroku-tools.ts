@@ -0,0 +1,286 @@
+/**
+ * Factories and validation for the built-in Heroku tools (`heroku_tool`) the
+ * agent runs on the server. Runtime params are checked with zod when a tool is
+ * created or handed to a HerokuAgent, so mistakes fail fast with a readable
+ * message instead of an opaque server error.
+ */
+
+import { z } from "zod";
+import type { HerokuAgentToolDefinition } from "./types.js";
+
+/**
+ * Dyno sizes accepted in `runtime_params.dyno_size` (matched case-insensitively).
+ */
+export const HEROKU_DYNO_SIZES = [
+  "eco",
+  "basic",
+  "standard-1x",
+  "standard-2x",
+  "performance-m",
+  "performance-l",
+  "performance-l-ram",
+  "performance-xl",
+  "performance-2xl",
+  "private-s",
+  "private-m",
+  "private-l",
+  "private-l-ram",
+  "private-xl",
+  "private-2xl",
+  "shield-s",
+  "shield-m",
+  "shield-l",
+  "shield-l-ram",
+  "shield-xl",
+  "shield-2xl",
+] as const;
+
+export type HerokuDynoSize = (typeof HEROKU_DYNO_SIZES)[number];
+
+/**
+ * Languages supported by the `code_exec_*` tools.
+ */
+export type HerokuCodeExecLanguage = "python" | "node" | "ruby" | "go";
+
+const dynoSizeSchema = z
+  .string()
+  .refine(
+    (size) =>
+      (HEROKU_DYNO_SIZES as readonly string[]).includes(size.toLowerCase()),
+    { message: `must be one of ${HEROKU_DYNO_SIZES.join(", ")}` },
+  );
+
+const runtimeParamsSchema = z
+  .object({
+    target_app_name: z.string().trim().min(1, "is required"),
+    dyno_size: dynoSizeSchema.optional(),
+    ttl_seconds: z.number().int().positive().optional(),
+    max_calls: z.number().int().positive().optional(),
+    tool_params: z.record(z.string(), z.any()).optional(),
+  })
+  .passthrough();
+
+const dbAttachmentParamsSchema = z
+  .object({ db_attachment: z.string().trim().min(1, "is required") })
+  .passthrough();
+
+/**
+ * Extra checks on `runtime_params.tool_params` for tools that need them.
+ */
+const TOOL_PARAMS_SCHEMAS: Record<string, z.ZodType> = {
+  dyno_run_command: z
+    .object({
+      cmd: z.string().trim().min(1, "is required"),
+      description: z.string().trim().min(1, "is required"),
+      parameters: z.record(z.string(), z.any()).optional(),
+    })
+    .passthrough(),
+  postgres_get_schema: dbAttachmentParamsSchema,
+  postgres_run_query: dbAttachmentParamsSchema,
+};
+
+function formatIssues(prefix: string, error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const path = [prefix, ...issue.path.map(String)].join(".");
+      return `${path} ${issue.message}`;
+    })
+    .join("; ");
+}
+
+/**
+ * Validates a tool definition before it is sent to the agent. Only `heroku_tool`
+ * definitions are checked; MCP tools are configured on the server.
+ *
+ * @param tool - The tool definition to check
+ * @returns The same tool definition
+ * @throws {Error} When `runtime_params` is missing or invalid, e.g. no
+ * `target_app_name`, an unknown `dyno_size`, or a non-positive `ttl_seconds`
+ */
+export function validateHerokuToolDefinition<
+  T extends HerokuAgentToolDefinition,
+>(tool: T): T {
+  if (tool.type !== "heroku_tool") {
+    return tool;
+  }
+
+  const issues: string[] = [];
+  const runtimeParams = runtimeParamsSchema.safeParse(tool.runtime_params);
+  if (!runtimeParams.success) {
+    issues.push(
+      tool.runtime_params === undefined
+        ? "runtime_params is required"
+        : formatIssues("runtime_params", runtimeParams.error),
+    );
+  }
+  const toolParamsSchema = TOOL_PARAMS_SCHEMAS[tool.name];
+  if (toolParamsSchema && tool.runtime_params !== undefined) {
+    const toolParams = toolParamsSchema.safeParse(
+      tool.runtime_params.tool_params ?? {},
+    );
+    if (!toolParams.success) {
+      issues.push(formatIssues("runtime_params.tool_params", toolParams.error));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid heroku_tool "${tool.name}": ${issues.join("; ")}`);
+  }
+  return tool;
+}
+
+/**
+ * Runtime options shared by all Heroku tools.
+ */
+export interface HerokuToolOptions {
+  /** App whose dynos run the tool */
+  targetAppName: string;
+  /** Dyno size to run the tool on */
+  dynoSize?: HerokuDynoSize;
+  /** Seconds a tool dyno may run before it is stopped */
+  ttlSeconds?: number;
+  /** Maximum number of times the agent may call the tool in one run */
+  maxCalls?: number;
+  /** Description shown to the model, overrides the default */
+  description?: string;
+}
+
+/**
+ * Options for {@link createHerokuDynoRunCommandTool}.
+ */
+export interface HerokuDynoRunCommandToolOptions extends HerokuToolOptions {
+  /** Command to run on a one-off dyno, e.g. "rake db:status" */
+  command: string;
+  /** What the command does, so the model knows when to call it */
+  commandDescription: string;
+  /** JSON schema of the arguments the model passes to the command */
+  parameters?: Record<string, any>;
+}
+
+/**
+ * Options for the Postgres tools.
+ */
+export interface HerokuPostgresToolOptions extends HerokuToolOptions {
+  /** Database attachment to use, e.g. "DATABASE" */
+  dbAttachment: string;
+}
+
+function createHerokuTool(
+  name: string,
+  options: HerokuToolOptions,
+  toolParams?: Record<string, any>,
+): HerokuAgentToolDefinition {
+  const tool: HerokuAgentToolDefinition = {
+    type: "heroku_tool",
+    name,
+    description: options.description,
+    runtime_params: {
+      target_app_name: options.targetAppName,
+      dyno_size: options.dynoSize,
+      ttl_seconds: options.ttlSeconds,
+      max_calls: options.maxCalls,
+      tool_params: toolParams,
+    },
+  };
+  return validateHerokuToolDefinition(tool);
+}
+
+/**
+ * Creates a `dyno_run_command` tool that runs a command on a one-off dyno.
+ *
+ * @param options - Target app, command, and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ *
+ * @example
+ * ```typescript
+ * const tools = [
+ *   createHerokuDynoRunCommandTool({
+ *     targetAppName: "my-app",
+ *     command: "uname -a",
+ *     commandDescription: "Gets the kernel version of the app's dynos.",
+ *   }),
+ * ];
+ * const agent = new HerokuAgent({ tools });
+ * ```
+ */
+export function createHerokuDynoRunCommandTool(
+  options: HerokuDynoRunCommandToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool("dyno_run_command", options, {
+    cmd: options.command,
+    description: options.commandDescription,
+    parameters: options.parameters ?? { type: "object", properties: {} },
+  });
+}
+
+/**
+ * Creates a `postgres_get_schema` tool that reads the schema of a Heroku Postgres database.
+ *
+ * @param options - Target app, database attachment, and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ */
+export function createHerokuPostgresGetSchemaTool(
+  options: HerokuPostgresToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool("postgres_get_schema", options, {
+    db_attachment: options.dbAttachment,
+  });
+}
+
+/**
+ * Creates a `postgres_run_query` tool that runs read-only SQL on a Heroku Postgres database.
+ *
+ * @param options - Target app, database attachment, and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ */
+export function createHerokuPostgresRunQueryTool(
+  options: HerokuPostgresToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool("postgres_run_query", options, {
+    db_attachment: options.dbAttachment,
+  });
+}
+
+/**
+ * Creates a `code_exec_<language>` tool that runs model-written code on a one-off dyno.
+ *
+ * @param language - Language the code is written in
+ * @param options - Target app and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ */
+export function createHerokuCodeExecTool(
+  language: HerokuCodeExecLanguage,
+  options: HerokuToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool(`code_exec_${language}`, options);
+}
+
+/**
+ * Creates an `html_to_markdown` tool that fetches a web page as Markdown.
+ *
+ * @param options - Target app and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ */
+export function createHerokuHtmlToMarkdownTool(
+  options: HerokuToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool("html_to_markdown", options);
+}
+
+/**
+ * Creates a `pdf_to_markdown` tool that converts a PDF document to Markdown.
+ *
+ * @param options - Target app and runtime limits
+ * @returns A validated tool definition for HerokuAgent
+ * @throws {Error} When an option is invalid
+ */
+export function createHerokuPdfToMarkdownTool(
+  options: HerokuToolOptions,
+): HerokuAgentToolDefinition {
+  return createHerokuTool("pdf_to_markdown", options);
+}
@@ -0,0 +1,233 @@
+import { Runnable, type RunnableConfig } from "@langchain/core/runnables";
+import {
+  HerokuImageGenerationFields,
+  HerokuImageGenerationCallOptions,
+  HerokuImageGenerationInput,
+  HerokuImageGenerationRequest,
+  HerokuImageGenerationResponse,
+  HerokuTransportHooks,
+  HerokuLogger,
+  HerokuLogLevel,
+} from "./types.js";
+import type { Tracer } from "@opentelemetry/api";
+import {
+  getHerokuConfigOptionsWithEnvKeys,
+  postJsonWithRetries,
+} from "./common.js";
+import { createHerokuLogger } from "./logger.js";
+
+/** Call options without the RunnableConfig keys handled by the runnable machinery */
+type ImageGenerationOptions = Omit<
+  Partial<HerokuImageGenerationCallOptions>,
+  keyof RunnableConfig
+>;
+
+/**
+ * **HerokuImageGeneration** - Heroku Managed Inference Image Generation Integration
+ *
+ * A LangChain runnable that generates images from text prompts using the diffusion models
+ * (e.g. Stable Image Ultra) served by Heroku's Managed Inference API. The input can be a
+ * plain prompt or an object with a prompt and per-call options, so it composes with prompt
+ * templates and other runnables in LCEL chains. Requests share the retry and timeout
+ * behavior of the chat and agent models.
+ *
+ * @example
+ * ```typescript
+ * import { HerokuImageGeneration } from "heroku-langchain";
+ * import { writeFile } from "node:fs/promises";
+ *
+ * const images = new HerokuImageGeneration({
+ *   model: "stable-image-ultra",
+ *   apiKey: process.env.DIFFUSION_KEY
+ * });
+ *
+ * const result = await images.invoke("A purple dyno surfing a wave, digital art", {
+ *   size: "1024x1024",
+ *   seed: 42
+ * });
+ * await writeFile("dyno.png", Buffer.from(result.data[0].b64_json!, "base64"));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Compose with a prompt template
+ * import { PromptTemplate } from "@langchain/core/prompts";
+ *
+ * const chain = PromptTemplate.fromTemplate("A watercolor painting of {subject}")
+ *   .pipe((prompt) => prompt.toString())
+ *   .pipe(new HerokuImageGeneration({ responseFormat: "url" }));
+ * const { data } = await chain.invoke({ subject: "a lighthouse at dusk" });
+ * console.log(data[0].url);
+ * ```
+ *
+ * @see {@link HerokuImageGenerationFields} for constructor options
+ * @see {@link HerokuImageGenerationCallOptions} for runtime call options
+ * @see [Heroku Image Generation API Documentation](https://devcenter.heroku.com/articles/heroku-inference-api-v1-images-generations)
+ */
+export class HerokuImageGeneration extends Runnable<
+  HerokuImageGenerationInput,
+  HerokuImageGenerationResponse,
+  HerokuImageGenerationCallOptions
+> {
+  lc_namespace = ["heroku_langchain", "image_generation"];
+
+  protected model: string;
+  protected apiKey?: string;
+  protected apiUrl?: string;
+  protected size?: string;
+  protected steps?: number;
+  protected responseFormat: "b64_json" | "url";
+  protected maxRetries: number;
+  protected timeout?: number;
+  protected additionalKwargs: Record<string, any>;
+  protected fetchImpl?: typeof fetch;
+  protected defaultHeaders?: Record<string, string>;
+  protected retryableStatusCodes?: number[];
+  protected transportHooks?: HerokuTransportHooks;
+  protected tracer?: Tracer;
+  /** Logger supplied by the caller */
+  protected logger?: HerokuLogger;
+  protected logLevel?: HerokuLogLevel;
+  /** Namespaced, redacting logger used for this instance's diagnostics */
+  protected log: HerokuLogger;
+
+  /**
+   * Returns the LangChain identifier for this class.
+   * @returns The string "HerokuImageGeneration"
+   */
+  static lc_name() {
+    return "HerokuImageGeneration";
+  }
+
+  /**
+   * Creates a new HerokuImageGeneration instance.
+   *
+   * @param fields - Optional configuration options for the Heroku diffusion model
+   * @throws {Error} When model ID is not provided and DIFFUSION_MODEL_ID environment variable is not set
+   */
+  constructor(fields?: HerokuImageGenerationFields) {
+    super(fields ?? {});
+
+    const modelFromEnv =
+      typeof process !== "undefined" &&
+      process.env &&
+      process.env.DIFFUSION_MODEL_ID;
+    this.model = fields?.model || modelFromEnv || "";
+    if (!this.model) {
+      throw new Error(
+        "Heroku image generation model ID not found. Please set it in the constructor, " +
+          "or set the DIFFUSION_MODEL_ID environment variable.",
+      );
+    }
+
+    this.apiKey = fields?.apiKey;
+    this.apiUrl = fields?.apiUrl;
+    this.size = fields?.size;
+    this.steps = fields?.steps;
+    this.responseFormat = fields?.responseFormat ?? "b64_json";
+    this.maxRetries = fields?.maxRetries ?? 2;
+    this.timeout = fields?.timeout;
+    this.additionalKwargs = fields?.additionalKwargs ?? {};
+    this.fetchImpl = fields?.fetch;
+    this.defaultHeaders = fields?.defaultHeaders;
+    this.retryableStatusCodes = fields?.retryableStatusCodes;
+    this.transportHooks = fields?.transportHooks;
+    this.tracer = fields?.tracer;
+    this.logger = fields?.logger;
+    this.logLevel = fields?.logLevel;
+    this.log = createHerokuLogger("HerokuImageGeneration", fields);
+  }
+
+  /**
+   * Builds the request payload from the input prompt, constructor defaults, and call options.
+   * Options embedded in the input take precedence over call options.
+   *
+   * @internal
+   */
+  invocationParams(
+    input: HerokuImageGenerationInput,
+    options?: ImageGenerationOptions,
+  ): HerokuImageGenerationRequest {
+    const { prompt, ...inputOptions } =
+      typeof input === "string" ? { prompt: input } : input;
+    const merged = { ...options, ...inputOptions };
+
+    const request: HerokuImageGenerationRequest = {
+      ...this.additionalKwargs,
+      ...merged.additionalKwargs,
+      model: merged.model ?? this.model,
+      prompt,
+      negative_prompt: merged.negativePrompt,
+      size: merged.size ?? this.size,
+      seed: merged.seed,
+      steps: merged.steps ?? this.steps,
+      n: merged.n,
+      response_format: merged.responseFormat ?? this.responseFormat,
+    };
+
+    Object.keys(request).forEach(
+      (key) => request[key] === undefined && delete request[key],
+    );
+    return request;
+  }
+
+  /**
+   * Generates images for the given prompt.
+   *
+   * @param input - A prompt, or an object with a prompt and per-call options
+   * @param options - Optional call-time parameters and RunnableConfig
+   * @returns The generated images as base64 strings or URLs
+   * @throws {HerokuApiError} For API-related errors
+   */
+  async invoke(
+    input: HerokuImageGenerationInput,
+    options?: Partial<HerokuImageGenerationCallOptions>,
+  ): Promise<HerokuImageGenerationResponse> {
+    const [runnableConfig, callOptions] =
+      this._separateRunnableConfigFromCallOptions(options);
+    return this._callWithConfig(
+      (
+        value: HerokuImageGenerationInput,
+        config?: Partial<HerokuImageGenerationCallOptions>,
+      ) => this._generate(value, callOptions, config?.signal),
+      input,
+      runnableConfig,
+    );
+  }
+
+  private async _generate(
+    input: HerokuImageGenerationInput,
+    options: ImageGenerationOptions,
+    signal?: AbortSignal,
+  ): Promise<HerokuImageGenerationResponse> {
+    const herokuConfig = getHerokuConfigOptionsWithEnvKeys(
+      this.apiKey,
+      this.apiUrl,
+      "/v1/images/generations",
+      "DIFFUSION_KEY",
+      "DIFFUSION_URL",
+    );
+
+    const requestPayload = this.invocationParams(input, options);
+    this.log.debug(
+      { model: requestPayload.model, size: requestPayload.size },
+      "Image generation request",
+    );
+    const response = await postJsonWithRetries(
+      herokuConfig.apiUrl,
+      herokuConfig.apiKey,
+      requestPayload,
+      {
+        maxRetries: this.maxRetries,
+        timeout: this.timeout,
+        signal,
+        headers: this.defaultHeaders,
+        fetch: this.fetchImpl,
+        retryableStatusCodes: this.retryableStatusCodes,
+        hooks: this.transportHooks,
+        tracer: this.tracer,
+      },
+    );
+    return (await response.json()) as HerokuImageGenerationResponse;
+  }
+}
@@ -9,6 +9,8 @@
  * - **Chat Models**: Access to various LLMs via ChatHeroku class
  * - **Agents**: Intelligent agents with tool execution via HerokuAgent class
  * - **Embeddings**: Text embeddings generation via HerokuEmbeddings class
+ * - **Reranking**: Document reranking for RAG via HerokuRerank class
+ * - **Image Generation**: Text-to-image via HerokuImageGeneration class
  * - **Function Calling**: Support for structured tools and function calling
  * - **Streaming**: Real-time response streaming for all models
  * - **Error Handling**: Robust error handling with retry logic
@@ -79,6 +81,42 @@ export type {
  */
 export { HerokuAgent } from "./heroku-agent.js";
 
+/**
+ * HerokuAgentSession - A HerokuAgent conversation continued in one server-side session
+ * @see {@link HerokuAgentSession}
+ */
+export { HerokuAgentSession } from "./heroku-agent-session.js";
+export type { HerokuAgentSessionCallOptions } from "./heroku-agent-session.js";
+
+/**
+ * Factories and validation for the built-in Heroku tools run by HerokuAgent.
+ * @see {@link createHerokuDynoRunCommandTool}
+ * @see {@link validateHerokuToolDefinition}
+ */
+export {
+  createHerokuDynoRunCommandTool,
+  createHerokuPostgresGetSchemaTool,
+  createHerokuPostgresRunQueryTool,
+  createHerokuCodeExecTool,
+  createHerokuHtmlToMarkdownTool,
+  createHerokuPdfToMarkdownTool,
+  validateHerokuToolDefinition,
+  HEROKU_DYNO_SIZES,
+} from "./heroku-tools.js";
+export type {
+  HerokuToolOptions,
+  HerokuDynoRunCommandToolOptions,
+  HerokuPostgresToolOptions,
+  HerokuCodeExecLanguage,
+  HerokuDynoSize,
+} from "./heroku-tools.js";
+
+/**
+ * Discovery of the MCP servers and tools registered on the app's Heroku MCP Toolkit.
+ * @see {@link listHerokuMcpTools}
+ */
+export { listHerokuMcpServers, listHerokuMcpTools } from "./mcp-tools.js";
+
 /**
  * HerokuEmbeddings - Text embeddings for similarity search and RAG
  *
@@ -89,6 +127,53 @@ export { HerokuAgent } from "./heroku-agent.js";
  */
 export { HerokuEmbeddings } from "./embeddings.js";
 
+/**
+ * Embedding caches so HerokuEmbeddings only sends uncached texts to the API.
+ * @see {@link HerokuInMemoryEmbeddingsCache}
+ * @see {@link HerokuRedisEmbeddingsCache}
+ */
+export {
+  HerokuInMemoryEmbeddingsCache,
+  HerokuRedisEmbeddingsCache,
+  herokuEmbeddingsCacheKey,
+} from "./embeddings-cache.js";
+export type {
+  HerokuInMemoryEmbeddingsCacheOptions,
+  HerokuRedisEmbeddingsCacheOptions,
+  HerokuRedisClient,
+  HerokuEmbeddingsCacheKeyParams,
+} from "./embeddings-cache.js";
+
+/**
+ * HerokuRerank - Document reranking for RAG pipelines
+ *
+ * Reorders retrieved documents by relevance to a query using the rerank models
+ * served by Heroku, and plugs into LangChain's ContextualCompressionRetriever.
+ *
+ * @see {@link HerokuRerank} for detailed documentation
+ */
+export { HerokuRerank } from "./rerank.js";
+
+/**
+ * HerokuPgVectorStore - Vector store backed by Heroku Postgres with pgvector
+ *
+ * Stores documents and HerokuEmbeddings vectors in a pgvector table, with
+ * metadata filters, MMR search, and upserts by ID.
+ *
+ * @see {@link HerokuPgVectorStore} for detailed documentation
+ */
+export { HerokuPgVectorStore } from "./pgvector.js";
+
+/**
+ * HerokuImageGeneration - Image generation with Heroku diffusion models
+ *
+ * A runnable that turns text prompts into images (base64 or URL outputs)
+ * using the diffusion models served by Heroku's Managed Inference API.
+ *
+ * @see {@link HerokuImageGeneration} for detailed documentation
+ */
+export { HerokuImageGeneration } from "./image-generation.js";
+
 // Common Error Classes
 /**
  * Custom error class for Heroku API errors with status codes and response details.
@@ -96,6 +181,65 @@ export { HerokuEmbeddings } from "./embeddings.js";
  */
 export { HerokuApiError } from "./common.js";
 
+/**
+ * Typed subclasses of HerokuApiError for handling failures without matching on messages.
+ * Each carries the request ID, model, and a sanitized request summary.
+ */
+export {
+  HerokuAuthenticationError,
+  HerokuRateLimitError,
+  HerokuContextLengthError,
+  HerokuInvalidRequestError,
+  HerokuServerError,
+  HerokuStreamError,
+  HerokuTimeoutError,
+} from "./common.js";
+export type { HerokuErrorDetails, HerokuRequestSummary } from "./common.js";
+
+/**
+ * Redaction of API keys, bearer tokens, and configured secrets from errors and debug output.
+ * @see {@link configureHerokuRedaction}
+ */
+export {
+  configureHerokuRedaction,
+  redactHerokuSecrets,
+  redactHerokuString,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTED_PATTERNS,
+} from "./redaction.js";
+export type { HerokuRedactionOptions } from "./redaction.js";
+
+/**
+ * Structured, redacting logger used for the clients' diagnostics.
+ * @see {@link createHerokuLogger}
+ */
+export { createHerokuLogger, resolveHerokuLogLevel } from "./logger.js";
+
+/**
+ * OpenTelemetry spans (GenAI semantic conventions) for operations, HTTP attempts,
+ * and server-side agent tool executions.
+ * @see {@link getHerokuTracer}
+ */
+export { HEROKU_TRACER_NAME, getHerokuTracer } from "./tracing.js";
+export type { HerokuGenAIOperation } from "./tracing.js";
+
+// Shared Type Definitions
+/**
+ * HTTP client options (custom fetch, default headers, retry settings and transport hooks)
+ * shared by all Heroku clients.
+ * @see {@link HerokuHttpClientFields}
+ */
+export type {
+  HerokuHttpClientFields,
+  HerokuTransportHooks,
+  HerokuRequestAttempt,
+  HerokuRequestAttemptResult,
+  HerokuLogger,
+  HerokuLoggerFields,
+  HerokuLogLevel,
+  HerokuLogFields,
+} from "./types.js";
+
 // Type Definitions for ChatHeroku (Chat Completions)
 /**
  * Configuration options for creating a ChatHeroku instance.
@@ -104,10 +248,16 @@ export { HerokuApiError } from "./common.js";
 export type {
   ChatHerokuFields,
   ChatHerokuCallOptions,
+  ChatHerokuThinkingConfig,
   HerokuChatMessageRole,
   HerokuToolCall,
   HerokuToolMessageContent,
+  HerokuTextContentPart,
+  HerokuImageUrlContentPart,
+  HerokuChatContentPart,
   HerokuChatMessage,
+  HerokuReasoning,
+  HerokuExtendedThinking,
   HerokuFunctionToolParameters,
   HerokuFunctionTool,
   HerokuChatCompletionRequest,
@@ -130,6 +280,16 @@ export type {
   HerokuAgentCallOptions,
   HerokuAgentToolDefinition,
   HerokuTool,
+  HerokuAgentToolResult,
+  HerokuAgentTranscriptSegment,
+  HerokuAgentLocalToolsOptions,
+  HerokuLocalToolImplementation,
+  HerokuToolApprovalPolicy,
+  HerokuToolApprovalRequest,
+  HerokuToolApprovalDecision,
+  HerokuMcpServer,
+  HerokuMcpServerTool,
+  HerokuMcpToolsOptions,
   HerokuAgentInvokeRequest,
   HerokuAgentInvokeResponse,
   HerokuAgentStreamRequest,
@@ -140,6 +300,8 @@ export type {
   HerokuAgentToolErrorEvent,
   HerokuAgentAgentErrorEvent,
   HerokuAgentStreamEndEvent,
+  HerokuAgentUsageEvent,
+  HerokuAgentEvent, // Union of the events yielded by HerokuAgent.streamAgentEvents()
   HerokuAgentSSEData, // Union type for agent SSE data
 } from "./types.js";
 
@@ -151,8 +313,52 @@ export type {
 export type {
   HerokuEmbeddingsFields,
   HerokuEmbeddingsCallOptions,
+  HerokuEmbeddingsOversizedInputPolicy,
+  HerokuEmbeddingsChunkingOptions,
+  HerokuEmbeddingsCacheStore,
+  HerokuEmbeddingType,
+  HerokuTypedEmbedding,
   HerokuEmbeddingsRequest,
   HerokuEmbeddingObject,
   HerokuEmbeddingsUsage,
   HerokuEmbeddingsResponse,
 } from "./types.js";
+
+// Type Definitions for HerokuImageGeneration (Image Generation)
+/**
+ * Configuration options for creating a HerokuImageGeneration instance.
+ * @see {@link HerokuImageGenerationFields}
+ */
+export type {
+  HerokuImageGenerationFields,
+  HerokuImageGenerationCallOptions,
+  HerokuImageGenerationInput,
+  HerokuImageGenerationRequest,
+  HerokuGeneratedImage,
+  HerokuImageGenerationResponse,
+} from "./types.js";
+
+// Type Definitions for HerokuRerank (Rerank)
+/**
+ * Configuration options for creating a HerokuRerank instance.
+ * @see {@link HerokuRerankFields}
+ */
+export type {
+  HerokuRerankFields,
+  HerokuRerankCallOptions,
+  HerokuRerankRequest,
+  HerokuRerankResult,
+  HerokuRerankResponse,
+} from "./types.js";
+
+// Type Definitions for HerokuPgVectorStore (Vector Store)
+/**
+ * Configuration options for creating a HerokuPgVectorStore instance.
+ * @see {@link HerokuPgVectorStoreFields}
+ */
+export type {
+  HerokuPgVectorStoreFields,
+  HerokuPgVectorFilter,
+  HerokuPgVectorFilterOperators,
+  HerokuPgQueryable,
+} from "./types.js";
@@ -0,0 +1,168 @@
+import {
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+  type ToolCall,
+} from "@langchain/core/messages";
+import type { ParsedSSEEvent } from "./common.js";
+import type {
+  HerokuAgentLocalToolsOptions,
+  HerokuAgentToolDefinition,
+} from "./types.js";
+
+/** Tool loop iterations allowed before the local run fails. */
+const DEFAULT_LOCAL_MAX_ITERATIONS = 10;
+
+function toEvent(data: Record<string, any>): ParsedSSEEvent {
+  return { event: "message", data: JSON.stringify(data) };
+}
+
+function toFunctionTool(tool: HerokuAgentToolDefinition) {
+  return {
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description:
+        tool.description ?? tool.runtime_params?.tool_params?.description ?? "",
+      // MCP tools found by discovery carry their schema in input_schema
+      parameters: tool.runtime_params?.tool_params?.parameters ??
+        (tool.type === "mcp" ? tool.input_schema : undefined) ?? {
+          type: "object",
+          properties: {},
+        },
+    },
+  };
+}
+
+function toHerokuToolCalls(toolCalls: ToolCall[]) {
+  return toolCalls.map((toolCall) => ({
+    id: toolCall.id,
+    type: "function",
+    function: {
+      name: toolCall.name,
+      arguments: JSON.stringify(toolCall.args ?? {}),
+    },
+  }));
+}
+
+/**
+ * Runs the agent tool loop in-process: the stand-in model picks tool calls, the
+ * paired local implementations run them, and their results are fed back until the
+ * model answers without tools. Yields the same events the agent endpoint streams
+ * (`chat.completion`, `tool.completion`, `tool.error`, `agent.error`), so the rest
+ * of HerokuAgent handles a local run exactly like a server one.
+ *
+ * @internal
+ */
+export async function* runLocalAgentLoop(
+  local: HerokuAgentLocalToolsOptions,
+  tools: HerokuAgentToolDefinition[],
+  messages: BaseMessage[],
+  signal?: AbortSignal,
+): AsyncGenerator<ParsedSSEEvent> {
+  const model =
+    tools.length > 0 && local.model.bindTools
+      ? local.model.bindTools(tools.map(toFunctionTool))
+      : local.model;
+  const maxIterations = local.maxIterations ?? DEFAULT_LOCAL_MAX_ITERATIONS;
+  const conversation = [...messages];
+  let callCount = 0;
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const response = (await model.invoke(conversation, {
+      signal,
+    })) as AIMessage;
+    const toolCalls = (response.tool_calls ?? []).map((toolCall) => ({
+      ...toolCall,
+      id: toolCall.id || `local_call_${++callCount}`,
+    }));
+    const usage = response.usage_metadata;
+    yield toEvent({
+      object: "chat.completion",
+      id: response.id,
+      model: "local",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            // Tool-calling models often return content blocks; keep their text
+            content: response.text,
+            tool_calls:
+              toolCalls.length > 0 ? toHerokuToolCalls(toolCalls) : undefined,
+          },
+          finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+        },
+      ],
+      usage: usage
+        ? {
+            prompt_tokens: usage.input_tokens,
+            completion_tokens: usage.output_tokens,
+            total_tokens: usage.total_tokens,
+          }
+        : undefined,
+    });
+    if (toolCalls.length === 0) {
+      return;
+    }
+
+    conversation.push(
+      new AIMessage({ content: response.content, tool_calls: toolCalls }),
+    );
+    for (const toolCall of toolCalls) {
+      const definition = tools.find((tool) => tool.name === toolCall.name);
+      const implementation = local.implementations[toolCall.name];
+      try {
+        if (!definition || !implementation) {
+          throw new Error(
+            `No local implementation for tool "${toolCall.name}"`,
+          );
+        }
+        const output = await implementation(toolCall.args ?? {}, definition);
+        const content =
+          typeof output === "string" ? output : JSON.stringify(output ?? null);
+        conversation.push(
+          new ToolMessage({
+            content,
+            tool_call_id: toolCall.id,
+            name: toolCall.name,
+          }),
+        );
+        yield toEvent({
+          object: "tool.completion",
+          choices: [
+            {
+              message: {
+                role: "tool",
+                name: toolCall.name,
+                tool_call_id: toolCall.id,
+                content,
+              },
+            },
+          ],
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        conversation.push(
+          new ToolMessage({
+            content: message,
+            tool_call_id: toolCall.id,
+            name: toolCall.name,
+            status: "error",
+          }),
+        );
+        yield toEvent({
+          object: "tool.error",
+          id: toolCall.id,
+          name: toolCall.name,
+          error: message,
+        });
+      }
+    }
+  }
+
+  yield toEvent({
+    object: "agent.error",
+    message: `Local tool loop did not finish within ${maxIterations} iterations`,
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Structured logging for the Heroku clients. Diagnostics go through an injectable
+ * {@link HerokuLogger} (pino-compatible) instead of being written to stdout, and
+ * every message and field is redacted before it reaches the logger.
+ */
+
+import type {
+  HerokuLogFields,
+  HerokuLogger,
+  HerokuLoggerFields,
+  HerokuLogLevel,
+} from "./types.js";
+import { redactHerokuSecrets, redactHerokuString } from "./redaction.js";
+
+const LOG_LEVEL_PRIORITY: Record<HerokuLogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+type HerokuLogMethod = Exclude<HerokuLogLevel, "silent">;
+
+function readEnv(name: string): string | undefined {
+  return typeof process !== "undefined" ? process.env?.[name] : undefined;
+}
+
+/**
+ * Resolves the effective log level from an explicit value or the environment.
+ *
+ * @param level - Explicit level, takes precedence when provided
+ * @returns HEROKU_LANGCHAIN_LOG_LEVEL when valid, "debug" when the legacy
+ * DEBUG_CHAT_HEROKU or DEBUG_TOOLS flags are set, otherwise "warn"
+ */
+export function resolveHerokuLogLevel(level?: HerokuLogLevel): HerokuLogLevel {
+  if (level) {
+    return level;
+  }
+  const fromEnv = readEnv("HEROKU_LANGCHAIN_LOG_LEVEL")?.toLowerCase();
+  if (fromEnv && fromEnv in LOG_LEVEL_PRIORITY) {
+    return fromEnv as HerokuLogLevel;
+  }
+  if (readEnv("DEBUG_CHAT_HEROKU") || readEnv("DEBUG_TOOLS")) {
+    return "debug";
+  }
+  return "warn";
+}
+
+function createConsoleLogger(namespace: string): HerokuLogger {
+  const write =
+    (method: HerokuLogMethod) => (fields: HerokuLogFields, message: string) => {
+      const line = `[${namespace}] ${message}`;
+      if (Object.keys(fields).length > 0) {
+        console[method](line, fields);
+      } else {
+        console[method](line);
+      }
+    };
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/**
+ * Creates the namespaced logger a Heroku client writes its diagnostics to.
+ *
+ * @param namespace - Namespace bound to every line, usually the class name
+ * @param options - Custom logger and minimum level
+ * @returns A logger that filters by level and redacts messages and fields
+ *
+ * @example
+ * ```typescript
+ * import pino from "pino";
+ * import { ChatHeroku } from "heroku-langchain";
+ *
+ * const model = new ChatHeroku({ logger: pino(), logLevel: "debug" });
+ * ```
+ */
+export function createHerokuLogger(
+  namespace: string,
+  options: HerokuLoggerFields = {},
+): HerokuLogger {
+  const threshold = LOG_LEVEL_PRIORITY[resolveHerokuLogLevel(options.logLevel)];
+  const target = options.logger
+    ? (options.logger.child?.({ namespace }) ?? options.logger)
+    : createConsoleLogger(namespace);
+  const bindings: HerokuLogFields =
+    options.logger && !options.logger.child ? { namespace } : {};
+
+  const log =
+    (method: HerokuLogMethod) =>
+    (fields: HerokuLogFields, message: string): void => {
+      if (LOG_LEVEL_PRIORITY[method] < threshold) {
+        return;
+      }
+      target[method](
+        redactHerokuSecrets({ ...bindings, ...fields }),
+        redactHerokuString(message),
+      );
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Discovery of the MCP servers and tools registered on an app's Heroku MCP
+ * Toolkit, so `type: "mcp"` tools do not have to be typed by hand.
+ */
+
+import { getHerokuConfigOptions, postJsonWithRetries } from "./common.js";
+import type {
+  HerokuAgentToolDefinition,
+  HerokuMcpServer,
+  HerokuMcpToolsOptions,
+} from "./types.js";
+
+const MCP_SERVERS_ENDPOINT = "/v1/mcp/servers";
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((literal) =>
+          literal.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\?/g, "[^/]"),
+        )
+        .join("[^/]*"),
+    )
+    .join(".*");
+  return new RegExp(`^${pattern}$`);
+}
+
+function toPatterns(globs?: string | string[]): RegExp[] | undefined {
+  if (globs === undefined) {
+    return undefined;
+  }
+  return (Array.isArray(globs) ? globs : [globs]).map(globToRegExp);
+}
+
+/**
+ * Lists the MCP servers registered on the app's Heroku MCP Toolkit, with their tools.
+ *
+ * Requests go through the shared transport, so they are retried, traced, and
+ * reported to transport hooks like every other Heroku API call.
+ *
+ * @param options - API credentials and HTTP client settings
+ * @returns The registered servers
+ * @throws {HerokuApiError} When the request fails after all attempts
+ */
+export async function listHerokuMcpServers(
+  options: HerokuMcpToolsOptions = {},
+): Promise<HerokuMcpServer[]> {
+  const { apiKey, apiUrl } = getHerokuConfigOptions(
+    options.apiKey,
+    options.apiUrl,
+    MCP_SERVERS_ENDPOINT,
+  );
+  const response = await postJsonWithRetries(
+    apiUrl,
+    apiKey,
+    {},
+    {
+      method: "GET",
+      maxRetries: options.maxRetries,
+      timeout: options.timeout,
+      signal: options.signal,
+      headers: options.defaultHeaders,
+      fetch: options.fetch,
+      retryableStatusCodes: options.retryableStatusCodes,
+      hooks: options.transportHooks,
+      tracer: options.tracer,
+    },
+  );
+  const body = await response.json();
+  return Array.isArray(body) ? body : (body?.data ?? []);
+}
+
+/**
+ * Lists the tools registered on the app's Heroku MCP Toolkit as agent tool
+ * definitions, with their descriptions and input schemas.
+ *
+ * Tools are named `<server>/<tool>` and can be filtered with `include` and
+ * `exclude` globs over those names.
+ *
+ * @param options - Filters, API credentials, and HTTP client settings
+ * @returns `type: "mcp"` tool definitions for HerokuAgent
+ * @throws {HerokuApiError} When the request fails
+ *
+ * @example
+ * ```typescript
+ * const tools = await listHerokuMcpTools({
+ *   include: "mcp-brave/*",
+ *   exclude: "*\/brave_local_search",
+ * });
+ * const agent = new HerokuAgent().bindTools(tools);
+ * ```
+ */
+export async function listHerokuMcpTools(
+  options: HerokuMcpToolsOptions = {},
+): Promise<HerokuAgentToolDefinition[]> {
+  const servers = await listHerokuMcpServers(options);
+  const include = toPatterns(options.include);
+  const exclude = toPatterns(options.exclude);
+
+  return servers
+    .flatMap((server) =>
+      (server.tools ?? []).map((tool) => ({
+        tool,
+        name:
+          tool.namespaced_name ??
+          `${server.namespace ?? server.process_type}/${tool.name}`,
+      })),
+    )
+    .filter(
+      ({ name }) =>
+        (!include || include.some((pattern) => pattern.test(name))) &&
+        !exclude?.some((pattern) => pattern.test(name)),
+    )
+    .map(({ tool, name }) => ({
+      type: "mcp" as const,
+      name,
+      description: tool.description,
+      input_schema: tool.input_schema,
+    }));
+}
@@ -3,9 +3,27 @@ import {
   BaseChatModelCallOptions,
   BaseChatModelParams,
 } from "@langchain/core/language_models/chat_models";
-import { HerokuApiError } from "./common.js";
-
-export interface HerokuBaseFields extends BaseChatModelParams {
+import { buildHerokuHeaders, postJsonWithRetries } from "./common.js";
+import type { Context, Tracer } from "@opentelemetry/api";
+import { createHerokuLogger } from "./logger.js";
+import {
+  getHerokuTracer,
+  loadHerokuTracing,
+  startHerokuOperationSpan,
+  type HerokuGenAIOperation,
+} from "./tracing.js";
+import type {
+  HerokuHttpClientFields,
+  HerokuLogger,
+  HerokuLoggerFields,
+  HerokuLogLevel,
+  HerokuTransportHooks,
+} from "./types.js";
+
+export interface HerokuBaseFields
+  extends BaseChatModelParams,
+    HerokuHttpClientFields,
+    HerokuLoggerFields {
   model?: string;
   temperature?: number;
   stop?: string[];
@@ -14,6 +32,7 @@ export interface HerokuBaseFields extends BaseChatModelParams {
   apiUrl?: string;
   maxRetries?: number;
   timeout?: number;
+  streamIdleTimeout?: number;
   streaming?: boolean;
   /** Optional alias used by some callers */
   stream?: boolean;
@@ -38,8 +57,19 @@ export abstract class HerokuModel<
   protected apiUrl?: string;
   protected maxRetries?: number;
   protected timeout?: number;
+  protected streamIdleTimeout?: number;
   protected streaming?: boolean;
   protected additionalKwargs?: Record<string, any>;
+  protected fetchImpl?: typeof fetch;
+  protected defaultHeaders?: Record<string, string>;
+  protected retryableStatusCodes?: number[];
+  protected transportHooks?: HerokuTransportHooks;
+  protected tracer?: Tracer;
+  /** Logger supplied by the caller, kept so bound copies can reuse it */
+  protected logger?: HerokuLogger;
+  protected logLevel?: HerokuLogLevel;
+  /** Namespaced, redacting logger used for this instance's diagnostics */
+  protected log: HerokuLogger;
 
   constructor(fields?: HerokuBaseFields) {
     super(fields ?? {});
@@ -64,9 +94,18 @@ export abstract class HerokuModel<
     this.apiUrl = fields?.apiUrl;
     this.maxRetries = fields?.maxRetries ?? 2;
     this.timeout = fields?.timeout;
+    this.streamIdleTimeout = fields?.streamIdleTimeout;
     // Respect both streaming and stream aliases
     this.streaming = fields?.streaming ?? fields?.stream ?? false;
     this.additionalKwargs = fields?.additionalKwargs ?? {};
+    this.fetchImpl = fields?.fetch;
+    this.defaultHeaders = fields?.defaultHeaders;
+    this.retryableStatusCodes = fields?.retryableStatusCodes;
+    this.transportHooks = fields?.transportHooks;
+    this.tracer = fields?.tracer;
+    this.logger = fields?.logger;
+    this.logLevel = fields?.logLevel;
+    this.log = createHerokuLogger(this._llmType(), fields);
   }
 
   /** Remove undefined keys to keep payloads clean */
@@ -79,73 +118,49 @@ export abstract class HerokuModel<
 
   /** Standard headers for Heroku API calls */
   protected buildHeaders(apiKey: string): Record<string, string> {
-    return {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    };
+    return buildHerokuHeaders(apiKey, this.defaultHeaders);
   }
 
-  /** POST JSON with retries, timeout, and consistent error wrapping. */
+  /**
+   * POST JSON through the shared transport (retries, timeout, and consistent error wrapping).
+   * The caller signal cancels the request and any streaming body that follows.
+   * Attempt spans are recorded under the operation span carried by `traceContext`.
+   */
   protected async postWithRetries(
     url: string,
     apiKey: string,
     body: Record<string, any>,
+    signal?: AbortSignal,
+    traceContext?: Context,
   ): Promise<Response> {
-    const maxRetries = this.maxRetries ?? 2;
-    let attempt = 0;
-    let lastError: Error | undefined;
-
-    while (attempt <= maxRetries) {
-      try {
-        const abortController = new AbortController();
-        let timeoutId: NodeJS.Timeout | undefined;
-        if (this.timeout) {
-          timeoutId = setTimeout(() => abortController.abort(), this.timeout);
-        }
-
-        const response = await fetch(url, {
-          method: "POST",
-          headers: this.buildHeaders(apiKey),
-          body: JSON.stringify(body),
-          signal: abortController.signal,
-        });
-
-        if (timeoutId) clearTimeout(timeoutId);
-
-        if (response.ok) {
-          return response;
-        }
-
-        if (response.status >= 400 && response.status < 500) {
-          const errorData = await response
-            .json()
-            .catch(() => ({ message: response.statusText }));
-          throw new HerokuApiError(
-            `Heroku API request failed with status ${response.status}: ${errorData.message || response.statusText}`,
-            response.status,
-            errorData,
-          );
-        }
-
-        lastError = new HerokuApiError(
-          `Heroku API request failed with status ${response.status}: ${response.statusText}`,
-          response.status,
-        );
-      } catch (err: any) {
-        lastError = err;
-      }
-
-      attempt++;
-      if (attempt <= maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
-      }
-    }
+    return postJsonWithRetries(url, apiKey, body, {
+      maxRetries: this.maxRetries,
+      timeout: this.timeout,
+      signal,
+      headers: this.buildHeaders(apiKey),
+      fetch: this.fetchImpl,
+      retryableStatusCodes: this.retryableStatusCodes,
+      hooks: this.transportHooks,
+      tracer: this.tracer,
+      traceContext,
+    });
+  }
 
-    if (lastError instanceof HerokuApiError) throw lastError;
-    throw new HerokuApiError(
-      `Heroku API request failed after ${maxRetries + 1} attempts: ${lastError?.message || "Unknown error"}`,
-      undefined,
-      lastError,
+  /**
+   * Starts the OpenTelemetry span for one API operation. Pass the returned context
+   * to {@link postWithRetries} so attempt spans are recorded as its children.
+   */
+  protected async startOperationSpan(
+    operation: HerokuGenAIOperation,
+    url: string,
+    body: Record<string, any>,
+  ) {
+    await loadHerokuTracing();
+    return startHerokuOperationSpan(
+      getHerokuTracer(this.tracer),
+      operation,
+      url,
+      body,
     );
   }
 
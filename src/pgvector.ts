@@ -0,0 +1,494 @@
+import { VectorStore } from "@langchain/core/vectorstores";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import { maximalMarginalRelevance } from "@langchain/core/utils/math";
+import { HerokuEmbeddings } from "./embeddings.js";
+import type {
+  HerokuPgQueryable,
+  HerokuPgVectorFilter,
+  HerokuPgVectorFilterOperators,
+  HerokuPgVectorStoreFields,
+} from "./types.js";
+
+/** Largest dimension pgvector can build an HNSW index for. */
+const MAX_HNSW_DIMENSIONS = 2000;
+
+/** Rows per INSERT statement; each row takes 4 of the 65535 allowed parameters. */
+const INSERT_BATCH_SIZE = 1000;
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  $gt: ">",
+  $gte: ">=",
+  $lt: "<",
+  $lte: "<=",
+};
+
+function quoteIdentifier(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(
+      `Invalid table name "${name}". Use letters, digits, and underscores only.`,
+    );
+  }
+  return `"${name}"`;
+}
+
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+function parseVector(value: unknown): number[] {
+  if (Array.isArray(value)) return value.map(Number);
+  return JSON.parse(String(value));
+}
+
+function isOperatorObject(
+  value: unknown,
+): value is HerokuPgVectorFilterOperators {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
+
+/**
+ * Compiles a metadata filter into a SQL condition, appending its values to `params`.
+ */
+function buildFilterClause(
+  filter: HerokuPgVectorFilter | undefined,
+  params: unknown[],
+): string {
+  const conditions: string[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  for (const [key, condition] of Object.entries(filter ?? {})) {
+    if (!isOperatorObject(condition)) {
+      conditions.push(
+        `metadata @> ${param(JSON.stringify({ [key]: condition }))}::jsonb`,
+      );
+      continue;
+    }
+    for (const [operator, value] of Object.entries(condition)) {
+      const field = () => `metadata->>${param(key)}`;
+      switch (operator) {
+        case "$eq":
+          conditions.push(
+            `metadata @> ${param(JSON.stringify({ [key]: value }))}::jsonb`,
+          );
+          break;
+        case "$ne":
+          conditions.push(
+            `NOT (metadata @> ${param(JSON.stringify({ [key]: value }))}::jsonb)`,
+          );
+          break;
+        case "$in":
+          conditions.push(
+            `${field()} = ANY(${param((value as unknown[]).map(String))}::text[])`,
+          );
+          break;
+        case "$nin": {
+          const excluded = field();
+          conditions.push(
+            `(${excluded} IS NULL OR NOT ${excluded} = ANY(${param((value as unknown[]).map(String))}::text[]))`,
+          );
+          break;
+        }
+        case "$gt":
+        case "$gte":
+        case "$lt":
+        case "$lte":
+          conditions.push(
+            `(${field()})::numeric ${COMPARISON_OPERATORS[operator]} ${param(value)}`,
+          );
+          break;
+        default:
+          throw new Error(`Unsupported filter operator "${operator}"`);
+      }
+    }
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+}
+
+/**
+ * **HerokuPgVectorStore** - pgvector storage in Heroku Postgres
+ *
+ * A LangChain vector store that keeps documents and their embeddings in a Heroku
+ * Postgres table using the pgvector extension. It connects with `DATABASE_URL`
+ * by default, creates the extension, table, and HNSW cosine index sized to the
+ * embedding dimension, and upserts documents by ID. Searches support metadata
+ * filters and maximal marginal relevance (MMR).
+ *
+ * Embeddings default to {@link HerokuEmbeddings}, which embeds stored documents
+ * with `input_type: "search_document"` and queries with `input_type: "search_query"`.
+ *
+ * Creating the connection from `DATABASE_URL` requires the `pg` package; pass
+ * `pool` to use an existing client instead.
+ *
+ * @example
+ * ```typescript
+ * import { HerokuEmbeddings, HerokuPgVectorStore } from "heroku-langchain";
+ *
+ * const store = new HerokuPgVectorStore(new HerokuEmbeddings(), {
+ *   tableName: "docs",
+ *   ssl: { rejectUnauthorized: false },
+ * });
+ *
+ * await store.addDocuments(
+ *   [{ pageContent: "Dynos run your app.", metadata: { source: "guide" } }],
+ *   { ids: ["dynos"] },
+ * );
+ *
+ * const results = await store.similaritySearch("What runs my app?", 2, {
+ *   source: "guide",
+ * });
+ * ```
+ */
+export class HerokuPgVectorStore extends VectorStore {
+  declare FilterType: HerokuPgVectorFilter;
+
+  private pool?: HerokuPgQueryable;
+  private ownsPool = false;
+  private connectionString?: string;
+  private ssl?: HerokuPgVectorStoreFields["ssl"];
+  private tableName: string;
+  private dimensions?: number;
+  private ensureTable: boolean;
+  private tableReady?: Promise<void>;
+
+  _vectorstoreType(): string {
+    return "heroku_pgvector";
+  }
+
+  /**
+   * Creates a new HerokuPgVectorStore instance.
+   *
+   * @param embeddings - Embeddings used for documents and queries @default new HerokuEmbeddings()
+   * @param fields - Connection and table options
+   * @throws {Error} When the table name is not a plain identifier
+   */
+  constructor(
+    embeddings?: EmbeddingsInterface,
+    fields: HerokuPgVectorStoreFields = {},
+  ) {
+    super(embeddings ?? new HerokuEmbeddings(), fields);
+    this.pool = fields.pool;
+    this.connectionString = fields.connectionString;
+    this.ssl = fields.ssl;
+    this.tableName = fields.tableName ?? "langchain_pg_embedding";
+    quoteIdentifier(this.tableName);
+    this.dimensions = fields.dimensions;
+    this.ensureTable = fields.ensureTable ?? true;
+  }
+
+  private get table(): string {
+    return quoteIdentifier(this.tableName);
+  }
+
+  private async getPool(): Promise<HerokuPgQueryable> {
+    if (this.pool) {
+      return this.pool;
+    }
+    const connectionString = this.connectionString ?? process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error(
+        "Postgres connection string not found. Please set the DATABASE_URL environment variable, or pass connectionString or pool to the constructor.",
+      );
+    }
+    // Optional peer dependency, only loaded when the store creates its own pool
+    const { Pool } = await import("pg");
+    this.pool = new Pool({ connectionString, ssl: this.ssl });
+    this.ownsPool = true;
+    return this.pool;
+  }
+
+  private async query(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: any[] }> {
+    const pool = await this.getPool();
+    return pool.query(text, values);
+  }
+
+  /**
+   * Creates the pgvector extension, table, and index once per instance.
+   */
+  private async ensureTableExists(dimensions: number): Promise<void> {
+    if (!this.ensureTable) {
+      return;
+    }
+    this.tableReady ??= (async () => {
+      const size = this.dimensions ?? dimensions;
+      await this.query("CREATE EXTENSION IF NOT EXISTS vector");
+      await this.query(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (
+          id TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+          embedding vector(${size}) NOT NULL
+        )`,
+      );
+      if (size <= MAX_HNSW_DIMENSIONS) {
+        await this.query(
+          `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${this.tableName}_embedding_idx`)} ON ${this.table} USING hnsw (embedding vector_cosine_ops)`,
+        );
+      }
+    })().catch((error) => {
+      this.tableReady = undefined;
+      throw error;
+    });
+    await this.tableReady;
+  }
+
+  /**
+   * Embeds the documents as search documents and upserts them.
+   *
+   * @param documents - Documents to store
+   * @param options - `ids` to upsert by; defaults to each document's `id` or a new UUID
+   * @returns The IDs of the stored documents
+   */
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((document) => document.pageContent),
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  /**
+   * Upserts documents with precomputed embeddings. A document whose ID already
+   * exists replaces the stored one; when an ID repeats in one call, the last
+   * document wins.
+   *
+   * @param vectors - One embedding per document
+   * @param documents - Documents to store
+   * @param options - `ids` to upsert by; defaults to each document's `id` or a new UUID
+   * @returns The IDs of the stored documents
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    if (vectors.length !== documents.length) {
+      throw new Error(
+        `Received ${vectors.length} vectors for ${documents.length} documents.`,
+      );
+    }
+    if (options?.ids && options.ids.length !== documents.length) {
+      throw new Error(
+        `Received ${options.ids.length} ids for ${documents.length} documents.`,
+      );
+    }
+    if (documents.length === 0) {
+      return [];
+    }
+    await this.ensureTableExists(vectors[0].length);
+
+    const ids = documents.map(
+      (document, i) => options?.ids?.[i] ?? document.id ?? crypto.randomUUID(),
+    );
+    // A repeated ID would make the upsert touch one row twice; the last one wins
+    const latest = new Map<string, number>();
+    ids.forEach((id, i) => latest.set(id, i));
+    const indexes = [...latest.values()].sort((a, b) => a - b);
+
+    for (let start = 0; start < indexes.length; start += INSERT_BATCH_SIZE) {
+      const params: unknown[] = [];
+      const rows = indexes
+        .slice(start, start + INSERT_BATCH_SIZE)
+        .map((index) => {
+          params.push(
+            ids[index],
+            documents[index].pageContent,
+            JSON.stringify(documents[index].metadata ?? {}),
+            toVectorLiteral(vectors[index]),
+          );
+          const n = params.length;
+          return `($${n - 3}, $${n - 2}, $${n - 1}::jsonb, $${n}::vector)`;
+        });
+      await this.query(
+        `INSERT INTO ${this.table} (id, content, metadata, embedding)
+         VALUES ${rows.join(", ")}
+         ON CONFLICT (id) DO UPDATE SET
+           content = EXCLUDED.content,
+           metadata = EXCLUDED.metadata,
+           embedding = EXCLUDED.embedding`,
+        params,
+      );
+    }
+    return ids;
+  }
+
+  /**
+   * Deletes documents by ID, or every document matching a metadata filter.
+   *
+   * @param params - `ids` to delete, or a `filter`
+   */
+  async delete(params: {
+    ids?: string[];
+    filter?: HerokuPgVectorFilter;
+  }): Promise<void> {
+    if (params.ids) {
+      await this.query(`DELETE FROM ${this.table} WHERE id = ANY($1::text[])`, [
+        params.ids,
+      ]);
+      return;
+    }
+    if (params.filter) {
+      const values: unknown[] = [];
+      const where = buildFilterClause(params.filter, values);
+      if (!where) {
+        throw new Error("Refusing to delete with an empty filter.");
+      }
+      await this.query(`DELETE FROM ${this.table} ${where}`, values);
+      return;
+    }
+    throw new Error("Either ids or filter must be provided to delete.");
+  }
+
+  private async searchRows(
+    query: number[],
+    k: number,
+    filter: HerokuPgVectorFilter | undefined,
+    includeEmbedding: boolean,
+  ): Promise<any[]> {
+    await this.ensureTableExists(query.length);
+    const params: unknown[] = [toVectorLiteral(query)];
+    const where = buildFilterClause(filter, params);
+    params.push(k);
+    const { rows } = await this.query(
+      `SELECT id, content, metadata, embedding <=> $1::vector AS distance${includeEmbedding ? ", embedding::text AS embedding" : ""}
+       FROM ${this.table}
+       ${where}
+       ORDER BY embedding <=> $1::vector
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows;
+  }
+
+  private toDocument(row: any): Document {
+    return new Document({
+      id: row.id,
+      pageContent: row.content,
+      metadata:
+        typeof row.metadata === "string"
+          ? JSON.parse(row.metadata)
+          : (row.metadata ?? {}),
+    });
+  }
+
+  /**
+   * Finds the documents closest to an embedding by cosine distance.
+   *
+   * @param query - The query embedding
+   * @param k - Number of documents to return
+   * @param filter - Metadata filter
+   * @returns Documents with their cosine similarity (1 is identical)
+   */
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: HerokuPgVectorFilter,
+  ): Promise<[DocumentInterface, number][]> {
+    const rows = await this.searchRows(query, k, filter, false);
+    return rows.map((row) => [this.toDocument(row), 1 - Number(row.distance)]);
+  }
+
+  /**
+   * Finds documents relevant to the query that are also diverse, using maximal
+   * marginal relevance over the `fetchK` nearest documents.
+   *
+   * @param query - The search text
+   * @param options - `k`, `fetchK` (default 20), `lambda` (default 0.5), and `filter`
+   * @returns The selected documents
+   */
+  async maxMarginalRelevanceSearch(
+    query: string,
+    options: {
+      k: number;
+      fetchK?: number;
+      lambda?: number;
+      filter?: HerokuPgVectorFilter;
+    },
+    _callbacks?: Callbacks,
+  ): Promise<DocumentInterface[]> {
+    const queryEmbedding = await this.embeddings.embedQuery(query);
+    const rows = await this.searchRows(
+      queryEmbedding,
+      options.fetchK ?? 20,
+      options.filter,
+      true,
+    );
+    const selected = maximalMarginalRelevance(
+      queryEmbedding,
+      rows.map((row) => parseVector(row.embedding)),
+      options.lambda ?? 0.5,
+      options.k,
+    );
+    return selected.map((index) => this.toDocument(rows[index]));
+  }
+
+  /**
+   * Closes the connection pool when the store created it.
+   */
+  async end(): Promise<void> {
+    if (this.ownsPool) {
+      await (this.pool as { end?: () => Promise<void> }).end?.();
+      this.pool = undefined;
+      this.ownsPool = false;
+    }
+  }
+
+  /**
+   * Creates a store and adds the given texts to it.
+   *
+   * @param texts - Texts to store
+   * @param metadatas - Metadata for every text, or one object shared by all
+   * @param embeddings - Embeddings to use @default new HerokuEmbeddings()
+   * @param fields - Connection and table options
+   * @returns The populated store
+   */
+  static async fromTexts(
+    texts: string[],
+    metadatas: object[] | object,
+    embeddings?: EmbeddingsInterface,
+    fields?: HerokuPgVectorStoreFields,
+  ): Promise<HerokuPgVectorStore> {
+    const documents = texts.map(
+      (text, i) =>
+        new Document({
+          pageContent: text,
+          metadata: Array.isArray(metadatas) ? metadatas[i] : metadatas,
+        }),
+    );
+    return HerokuPgVectorStore.fromDocuments(documents, embeddings, fields);
+  }
+
+  /**
+   * Creates a store and adds the given documents to it.
+   *
+   * @param documents - Documents to store
+   * @param embeddings - Embeddings to use @default new HerokuEmbeddings()
+   * @param fields - Connection and table options
+   * @returns The populated store
+   */
+  static async fromDocuments(
+    documents: DocumentInterface[],
+    embeddings?: EmbeddingsInterface,
+    fields?: HerokuPgVectorStoreFields,
+  ): Promise<HerokuPgVectorStore> {
+    const store = new HerokuPgVectorStore(embeddings, fields);
+    await store.addDocuments(documents);
+    return store;
+  }
+}
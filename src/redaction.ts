@@ -0,0 +1,196 @@
+/**
+ * Redaction of secrets from the errors, callback output, and debug logs produced by
+ * the Heroku clients. Logs are commonly shipped to third-party services, so every
+ * payload the library surfaces outside of a request body passes through here first.
+ */
+
+/**
+ * Options controlling how secrets are scrubbed.
+ */
+export interface HerokuRedactionOptions {
+  /**
+   * Extra field names whose values are always replaced. Strings match a field name
+   * exactly (case-insensitive); regular expressions are tested against the name.
+   */
+  keys?: (string | RegExp)[];
+  /** Extra patterns scrubbed from string values wherever they appear */
+  patterns?: RegExp[];
+  /** Text substituted for redacted values @default "[REDACTED]" */
+  replacement?: string;
+}
+
+/**
+ * Field names whose values are replaced by default: API keys, tokens, passwords,
+ * credentials, and HTTP auth headers (including secrets nested in `tool_params`).
+ */
+export const DEFAULT_REDACTED_KEYS: RegExp[] = [
+  /api[-_]?key/i,
+  /^authorization$/i,
+  /^cookie$/i,
+  /token$/i,
+  /secret/i,
+  /passw(or)?d/i,
+  /credential/i,
+  /private[-_]?key/i,
+];
+
+/**
+ * Patterns scrubbed from string values by default: bearer tokens, Heroku inference
+ * and platform API keys, and passwords embedded in connection URLs.
+ */
+export const DEFAULT_REDACTED_PATTERNS: RegExp[] = [
+  /(?<=\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+  /\binf-[A-Za-z0-9-]{8,}/g,
+  /\bHRKU-[A-Za-z0-9_-]+/g,
+  /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^:/\s@]+:)[^@\s/]+(?=@)/gi,
+];
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+
+let globalOptions: HerokuRedactionOptions = {};
+
+/**
+ * Configures the redaction applied to every error and debug line the library
+ * produces. Keys and patterns are added to the defaults, not substituted for them.
+ *
+ * @param options - Extra keys and patterns to scrub, or the replacement text
+ *
+ * @example
+ * ```typescript
+ * import { configureHerokuRedaction } from "heroku-langchain";
+ *
+ * configureHerokuRedaction({
+ *   keys: ["customer_email", /^x-tenant-/i],
+ *   patterns: [/\bsk_live_[A-Za-z0-9]+/g],
+ * });
+ * ```
+ */
+export function configureHerokuRedaction(
+  options: HerokuRedactionOptions,
+): void {
+  globalOptions = { ...options };
+}
+
+function resolveOptions(options?: HerokuRedactionOptions) {
+  return {
+    keys: [
+      ...DEFAULT_REDACTED_KEYS,
+      ...(globalOptions.keys ?? []),
+      ...(options?.keys ?? []),
+    ],
+    patterns: [
+      ...DEFAULT_REDACTED_PATTERNS,
+      ...(globalOptions.patterns ?? []),
+      ...(options?.patterns ?? []),
+    ],
+    replacement:
+      options?.replacement ?? globalOptions.replacement ?? DEFAULT_REPLACEMENT,
+  };
+}
+
+function isRedactedKey(key: string, keys: (string | RegExp)[]): boolean {
+  return keys.some((pattern) =>
+    typeof pattern === "string"
+      ? pattern.toLowerCase() === key.toLowerCase()
+      : new RegExp(pattern.source, pattern.flags.replace("g", "")).test(key),
+  );
+}
+
+function scrubString(
+  text: string,
+  patterns: RegExp[],
+  replacement: string,
+): string {
+  return patterns.reduce(
+    (result, pattern) =>
+      result.replace(
+        pattern.global
+          ? pattern
+          : new RegExp(pattern.source, `${pattern.flags}g`),
+        replacement,
+      ),
+    text,
+  );
+}
+
+/**
+ * Scrubs secrets from a string such as an error message or log line.
+ *
+ * @param text - The text to scrub
+ * @param options - Extra keys and patterns for this call
+ * @returns The text with bearer tokens, API keys, and configured patterns replaced
+ */
+export function redactHerokuString(
+  text: string,
+  options?: HerokuRedactionOptions,
+): string {
+  const { patterns, replacement } = resolveOptions(options);
+  return scrubString(text, patterns, replacement);
+}
+
+/**
+ * Returns a deep copy of a value with secrets scrubbed. Values of sensitive fields
+ * are replaced outright and string values are scrubbed with the redaction patterns.
+ * The input is never modified.
+ *
+ * @param value - Any JSON-like value (error payloads, configs, tool definitions)
+ * @param options - Extra keys and patterns for this call
+ * @returns The redacted copy
+ */
+export function redactHerokuSecrets<T>(
+  value: T,
+  options?: HerokuRedactionOptions,
+): T {
+  const { keys, patterns, replacement } = resolveOptions(options);
+  const seen = new WeakMap<object, unknown>();
+
+  const redact = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      return scrubString(current, patterns, replacement);
+    }
+    if (current === null || typeof current !== "object") {
+      return current;
+    }
+    if (seen.has(current)) {
+      return seen.get(current);
+    }
+    if (current instanceof Error) {
+      // Keep the prototype and own fields (status, cause, ...) so instanceof
+      // checks and error details survive; message and stack are non-enumerable
+      const copy = Object.create(Object.getPrototypeOf(current)) as Error;
+      seen.set(current, copy);
+      for (const key of Object.getOwnPropertyNames(current)) {
+        const descriptor = Object.getOwnPropertyDescriptor(current, key)!;
+        if ("value" in descriptor) {
+          descriptor.value =
+            descriptor.value !== undefined &&
+            descriptor.value !== null &&
+            isRedactedKey(key, keys)
+              ? replacement
+              : redact(descriptor.value);
+        }
+        Object.defineProperty(copy, key, descriptor);
+      }
+      return copy;
+    }
+    if (Array.isArray(current)) {
+      const copy: unknown[] = [];
+      seen.set(current, copy);
+      current.forEach((item) => copy.push(redact(item)));
+      return copy;
+    }
+    const copy: Record<string, unknown> = {};
+    seen.set(current, copy);
+    for (const [key, fieldValue] of Object.entries(current)) {
+      copy[key] =
+        fieldValue !== undefined &&
+        fieldValue !== null &&
+        isRedactedKey(key, keys)
+          ? replacement
+          : redact(fieldValue);
+    }
+    return copy;
+  };
+
+  return redact(value) as T;
+}
@@ -0,0 +1,233 @@
+import { BaseDocumentCompressor } from "@langchain/core/retrievers/document_compressors";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import {
+  HerokuRerankFields,
+  HerokuRerankCallOptions,
+  HerokuRerankRequest,
+  HerokuRerankResponse,
+  HerokuRerankResult,
+  HerokuTransportHooks,
+  HerokuLogger,
+  HerokuLogLevel,
+} from "./types.js";
+import type { Tracer } from "@opentelemetry/api";
+import {
+  getHerokuConfigOptionsWithEnvKeys,
+  postJsonWithRetries,
+} from "./common.js";
+import { createHerokuLogger } from "./logger.js";
+
+/**
+ * **HerokuRerank** - Heroku Managed Inference Rerank Integration
+ *
+ * A LangChain document compressor that reorders documents by their relevance to a query
+ * using the rerank models (e.g. Cohere Rerank) served by Heroku's Managed Inference API.
+ * It can be used on its own or dropped into a `ContextualCompressionRetriever` to rerank
+ * the documents returned by a base retriever in RAG pipelines.
+ *
+ * @example
+ * ```typescript
+ * import { HerokuRerank } from "heroku-langchain";
+ * import { Document } from "@langchain/core/documents";
+ *
+ * const reranker = new HerokuRerank({
+ *   model: "cohere-rerank-3-5",
+ *   apiKey: process.env.RERANK_KEY,
+ *   topN: 2
+ * });
+ *
+ * const ranked = await reranker.compressDocuments(
+ *   [
+ *     new Document({ pageContent: "Heroku is a cloud platform." }),
+ *     new Document({ pageContent: "Bananas are yellow." }),
+ *     new Document({ pageContent: "Dynos run your Heroku app." })
+ *   ],
+ *   "How do I run apps on Heroku?"
+ * );
+ * console.log(ranked.map((doc) => doc.metadata.relevanceScore));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Rerank retriever results
+ * import { ContextualCompressionRetriever } from "langchain/retrievers/contextual_compression";
+ *
+ * const retriever = new ContextualCompressionRetriever({
+ *   baseCompressor: new HerokuRerank({ topN: 3 }),
+ *   baseRetriever: vectorStore.asRetriever({ k: 20 })
+ * });
+ * const docs = await retriever.invoke("What is a dyno?");
+ * ```
+ *
+ * @see {@link HerokuRerankFields} for constructor options
+ * @see {@link HerokuRerankCallOptions} for runtime call options
+ * @see [Heroku Rerank API Documentation](https://devcenter.heroku.com/articles/heroku-inference-api-v1-rerank)
+ */
+export class HerokuRerank extends BaseDocumentCompressor {
+  protected model: string;
+  protected apiKey?: string;
+  protected apiUrl?: string;
+  protected topN?: number;
+  protected maxRetries: number;
+  protected timeout?: number;
+  protected additionalKwargs: Record<string, any>;
+  protected fetchImpl?: typeof fetch;
+  protected defaultHeaders?: Record<string, string>;
+  protected retryableStatusCodes?: number[];
+  protected transportHooks?: HerokuTransportHooks;
+  protected tracer?: Tracer;
+  /** Logger supplied by the caller */
+  protected logger?: HerokuLogger;
+  protected logLevel?: HerokuLogLevel;
+  /** Namespaced, redacting logger used for this instance's diagnostics */
+  protected log: HerokuLogger;
+
+  /**
+   * Creates a new HerokuRerank instance.
+   *
+   * @param fields - Optional configuration options for the Heroku rerank model
+   * @throws {Error} When model ID is not provided and RERANK_MODEL_ID environment variable is not set
+   */
+  constructor(fields?: HerokuRerankFields) {
+    super();
+
+    const modelFromEnv =
+      typeof process !== "undefined" &&
+      process.env &&
+      process.env.RERANK_MODEL_ID;
+    this.model = fields?.model || modelFromEnv || "";
+    if (!this.model) {
+      throw new Error(
+        "Heroku rerank model ID not found. Please set it in the constructor, " +
+          "or set the RERANK_MODEL_ID environment variable.",
+      );
+    }
+
+    this.apiKey = fields?.apiKey;
+    this.apiUrl = fields?.apiUrl;
+    this.topN = fields?.topN;
+    this.maxRetries = fields?.maxRetries ?? 2;
+    this.timeout = fields?.timeout;
+    this.additionalKwargs = fields?.additionalKwargs ?? {};
+    this.fetchImpl = fields?.fetch;
+    this.defaultHeaders = fields?.defaultHeaders;
+    this.retryableStatusCodes = fields?.retryableStatusCodes;
+    this.transportHooks = fields?.transportHooks;
+    this.tracer = fields?.tracer;
+    this.logger = fields?.logger;
+    this.logLevel = fields?.logLevel;
+    this.log = createHerokuLogger("HerokuRerank", fields);
+  }
+
+  /**
+   * Get the model name for identification.
+   * @returns The string "HerokuRerank"
+   */
+  get lc_name(): string {
+    return "HerokuRerank";
+  }
+
+  /**
+   * Scores documents against a query and returns the results ordered by relevance.
+   *
+   * @param documents - Documents (or plain strings) to rerank
+   * @param query - The query to rank the documents against
+   * @param options - Optional call-time parameters
+   * @returns Rerank results with the index of each document in the input array
+   * @throws {HerokuApiError} For API-related errors
+   */
+  async rerank(
+    documents: (DocumentInterface | string)[],
+    query: string,
+    options?: HerokuRerankCallOptions,
+  ): Promise<HerokuRerankResult[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const requestPayload: HerokuRerankRequest = {
+      ...this.additionalKwargs,
+      ...options?.additionalKwargs,
+      model: options?.model ?? this.model,
+      query,
+      documents: documents.map((doc) =>
+        typeof doc === "string" ? doc : doc.pageContent,
+      ),
+      top_n: options?.topN ?? this.topN,
+    };
+    if (requestPayload.top_n === undefined) {
+      delete requestPayload.top_n;
+    }
+
+    const response = await this.makeRequest(requestPayload, options?.signal);
+    return response.results;
+  }
+
+  /**
+   * Reranks documents by relevance to the query, keeping the top `topN` documents.
+   *
+   * Each returned document is a copy of the input with `metadata.relevanceScore` set.
+   *
+   * @param documents - Documents to rerank
+   * @param query - The query to rank the documents against
+   * @returns Documents ordered by descending relevance
+   */
+  async compressDocuments(
+    documents: DocumentInterface[],
+    query: string,
+  ): Promise<DocumentInterface[]> {
+    const results = await this.rerank(documents, query);
+    return results.map((result) => {
+      const doc = documents[result.index];
+      return new Document({
+        pageContent: doc.pageContent,
+        metadata: { ...doc.metadata, relevanceScore: result.relevance_score },
+        id: doc.id,
+      });
+    });
+  }
+
+  /**
+   * Makes a request to the Heroku rerank API through the shared transport.
+   *
+   * @param signal - Optional caller signal that cancels the request and pending retries
+   *
+   * @internal
+   */
+  private async makeRequest(
+    requestPayload: HerokuRerankRequest,
+    signal?: AbortSignal,
+  ): Promise<HerokuRerankResponse> {
+    const herokuConfig = getHerokuConfigOptionsWithEnvKeys(
+      this.apiKey,
+      this.apiUrl,
+      "/v1/rerank",
+      "RERANK_KEY",
+      "RERANK_URL",
+    );
+
+    this.log.debug(
+      {
+        model: requestPayload.model,
+        documents: requestPayload.documents.length,
+      },
+      "Rerank request",
+    );
+    const response = await postJsonWithRetries(
+      herokuConfig.apiUrl,
+      herokuConfig.apiKey,
+      requestPayload,
+      {
+        maxRetries: this.maxRetries,
+        timeout: this.timeout,
+        signal,
+        headers: this.defaultHeaders,
+        fetch: this.fetchImpl,
+        retryableStatusCodes: this.retryableStatusCodes,
+        hooks: this.transportHooks,
+        tracer: this.tracer,
+      },
+    );
+    return (await response.json()) as HerokuRerankResponse;
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  CallbackManager,
+  CallbackManagerForLLMRun,
+  CallbackManagerForToolRun,
+} from "@langchain/core/callbacks/manager";
+import { ToolMessage } from "@langchain/core/messages";
+import { redactHerokuSecrets, redactHerokuString } from "./redaction.js";
+
+/**
+ * A tool call executed by the Heroku agent on the server.
+ */
+export interface ServerToolCall {
+  /** Tool call ID assigned by the agent */
+  id?: string;
+  /** Tool name */
+  name?: string;
+  /** Arguments the tool ran with */
+  args?: unknown;
+  /** Tool definition type ("heroku_tool" or "mcp") */
+  type?: string;
+}
+
+/**
+ * Reports server-side tool executions as LangChain tool runs nested under the
+ * agent's LLM run, so they appear in tracers (e.g. LangSmith) and `streamEvents`
+ * instead of being written into the token stream. Inputs and outputs are redacted.
+ *
+ * @internal
+ */
+export class ServerToolRunTracker {
+  private runs = new Map<string, CallbackManagerForToolRun>();
+
+  constructor(private runManager?: CallbackManagerForLLMRun) {}
+
+  /**
+   * Creates a callback manager for one tool run, parented to the LLM run. LLM run
+   * managers have no getChild(), so the manager is built from the run's public
+   * handlers; the per-call metadata is only attached to that run.
+   */
+  private createManager(
+    runManager: CallbackManagerForLLMRun,
+    metadata: Record<string, unknown>,
+  ): CallbackManager {
+    const manager = new CallbackManager(runManager.runId, {
+      handlers: [...runManager.handlers],
+      inheritableHandlers: [...runManager.handlers],
+    });
+    manager.addMetadata(metadata, false);
+    return manager;
+  }
+
+  /**
+   * Starts a tool run when the agent requests a tool call. Calls without an ID or
+   * already started are ignored.
+   */
+  async start(call: ServerToolCall): Promise<void> {
+    if (!this.runManager || call.id === undefined || this.runs.has(call.id)) {
+      return;
+    }
+    const manager = this.createManager(this.runManager, {
+      tool_call_id: call.id,
+      heroku_tool_type: call.type,
+    });
+    const run = await manager.handleToolStart(
+      {
+        lc: 1,
+        type: "not_implemented",
+        id: ["heroku", call.type ?? "server_tool", call.name ?? "unknown"],
+      },
+      JSON.stringify(redactHerokuSecrets(call.args ?? {})),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      call.name,
+    );
+    this.runs.set(call.id, run);
+  }
+
+  /**
+   * Ends the tool run with the server result, starting it first when the
+   * tool call was not observed.
+   */
+  async end(call: ServerToolCall, output: string): Promise<void> {
+    const run = await this.take(call);
+    await run?.handleToolEnd(
+      new ToolMessage({
+        content: redactHerokuString(output ?? ""),
+        tool_call_id: call.id ?? "",
+        name: call.name,
+      }),
+    );
+  }
+
+  /**
+   * Fails the tool run with the server error, starting it first when the
+   * tool call was not observed.
+   */
+  async error(call: ServerToolCall, error: Error): Promise<void> {
+    const run = await this.take(call);
+    await run?.handleToolError(error);
+  }
+
+  /**
+   * Fails the runs still open when the agent stream ends, so none stay pending.
+   */
+  async abandon(): Promise<void> {
+    const runs = [...this.runs.values()];
+    this.runs.clear();
+    await Promise.all(
+      runs.map((run) =>
+        run.handleToolError(
+          new Error("Agent stream ended before the tool returned a result"),
+        ),
+      ),
+    );
+  }
+
+  private async take(
+    call: ServerToolCall,
+  ): Promise<CallbackManagerForToolRun | undefined> {
+    if (!this.runManager) {
+      return undefined;
+    }
+    const id = call.id ?? "";
+    if (!this.runs.has(id)) {
+      await this.start({ ...call, id });
+    }
+    const run = this.runs.get(id);
+    this.runs.delete(id);
+    return run;
+  }
+}
@@ -0,0 +1,53 @@
+import { interrupt } from "@langchain/langgraph";
+import type {
+  HerokuToolApprovalPolicy,
+  HerokuToolApprovalRequest,
+} from "./types.js";
+
+/**
+ * Whether the policy requires approval for a tool before it is given to the agent.
+ *
+ * @internal
+ */
+export function requiresHerokuToolApproval(
+  policy: HerokuToolApprovalPolicy | undefined,
+  request: HerokuToolApprovalRequest,
+): policy is HerokuToolApprovalPolicy {
+  if (!policy) {
+    return false;
+  }
+  return typeof policy.tools === "function"
+    ? policy.tools(request)
+    : policy.tools.includes(request.tool_name);
+}
+
+/**
+ * Asks the policy for a decision on a gated tool. Errors thrown by the
+ * interrupt (such as LangGraph's GraphInterrupt) propagate to the caller.
+ *
+ * @returns Whether the tool was approved, and the rejection reason if any
+ *
+ * @internal
+ */
+export async function requestHerokuToolApproval(
+  policy: HerokuToolApprovalPolicy,
+  request: HerokuToolApprovalRequest,
+): Promise<{ approved: boolean; reason?: string }> {
+  const decision = await (policy.interrupt ?? interrupt)(request);
+  if (typeof decision === "boolean") {
+    return { approved: decision };
+  }
+  return { approved: decision?.approved === true, reason: decision?.reason };
+}
+
+/**
+ * Message recorded as the tool error of a rejected tool.
+ *
+ * @internal
+ */
+export function formatHerokuToolRejection(
+  request: HerokuToolApprovalRequest,
+  reason?: string,
+): string {
+  return `Tool '${request.tool_name}' was rejected${reason ? `: ${reason}` : ""}`;
+}
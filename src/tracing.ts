@@ -0,0 +1,305 @@
+/**
+ * OpenTelemetry instrumentation for the Heroku clients. Spans follow the GenAI
+ * semantic conventions and are no-ops unless an OpenTelemetry SDK is registered
+ * (or a tracer is passed to the client).
+ *
+ * `@opentelemetry/api` is an optional peer dependency: it is imported lazily,
+ * and every span is a no-op when it is not installed.
+ */
+
+import type {
+  Context,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+} from "@opentelemetry/api";
+import { redactHerokuSecrets } from "./redaction.js";
+
+let otel: typeof import("@opentelemetry/api") | undefined;
+const otelLoaded = import("@opentelemetry/api").then(
+  (api) => {
+    otel = api;
+  },
+  () => undefined,
+);
+
+/**
+ * Waits until `@opentelemetry/api` has been loaded, or found to be missing. The
+ * clients call it before starting their spans.
+ *
+ * @internal
+ */
+export function loadHerokuTracing(): Promise<void> {
+  return otelLoaded;
+}
+
+// SpanKind and SpanStatusCode values, since the enums only exist at runtime when
+// the API is installed
+const SPAN_KIND_INTERNAL = 0 as SpanKind.INTERNAL;
+const SPAN_KIND_CLIENT = 2 as SpanKind.CLIENT;
+const SPAN_STATUS_ERROR = 2 as SpanStatusCode.ERROR;
+
+const NOOP_CONTEXT: Context = {
+  getValue: () => undefined,
+  setValue: () => NOOP_CONTEXT,
+  deleteValue: () => NOOP_CONTEXT,
+};
+
+const NOOP_SPAN: Span = {
+  spanContext: () => ({
+    traceId: "00000000000000000000000000000000",
+    spanId: "0000000000000000",
+    traceFlags: 0,
+  }),
+  setAttribute: () => NOOP_SPAN,
+  setAttributes: () => NOOP_SPAN,
+  addEvent: () => NOOP_SPAN,
+  addLink: () => NOOP_SPAN,
+  addLinks: () => NOOP_SPAN,
+  setStatus: () => NOOP_SPAN,
+  updateName: () => NOOP_SPAN,
+  end: () => undefined,
+  isRecording: () => false,
+  recordException: () => undefined,
+};
+
+/** Tracer used when `@opentelemetry/api` is not installed. */
+const NOOP_TRACER = {
+  startSpan: () => NOOP_SPAN,
+  startActiveSpan: (...args: unknown[]) =>
+    (args[args.length - 1] as (span: Span) => unknown)(NOOP_SPAN),
+} as Tracer;
+
+/** Instrumentation scope name used when no tracer is supplied. */
+export const HEROKU_TRACER_NAME = "heroku-langchain";
+
+/** GenAI provider name recorded on every span. */
+const HEROKU_PROVIDER_NAME = "heroku";
+
+/**
+ * GenAI operation recorded as `gen_ai.operation.name`.
+ */
+export type HerokuGenAIOperation = "chat" | "invoke_agent" | "embeddings";
+
+/**
+ * Token usage reported by the Heroku APIs (chat completions and embeddings).
+ */
+interface HerokuSpanUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Response details recorded on an operation span once they are known.
+ */
+export interface HerokuSpanResponse {
+  /** Response ID (`gen_ai.response.id`) */
+  id?: string;
+  /** Model that served the request (`gen_ai.response.model`) */
+  model?: string;
+  /** Finish reasons of the returned choices (`gen_ai.response.finish_reasons`) */
+  finishReasons?: (string | null | undefined)[];
+  /** Token usage (`gen_ai.usage.input_tokens` / `gen_ai.usage.output_tokens`) */
+  usage?: HerokuSpanUsage;
+}
+
+/**
+ * Returns the tracer spans are recorded with.
+ *
+ * @param tracer - Tracer supplied by the caller
+ * @returns The given tracer, or the global tracer for {@link HEROKU_TRACER_NAME}
+ * (a no-op tracer when `@opentelemetry/api` is not installed)
+ */
+export function getHerokuTracer(tracer?: Tracer): Tracer {
+  return tracer ?? otel?.trace.getTracer(HEROKU_TRACER_NAME) ?? NOOP_TRACER;
+}
+
+function getServerAddress(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Starts the span covering one client operation (a chat completion, agent run, or
+ * embeddings call). HTTP attempts and agent tool executions are recorded as its children.
+ *
+ * @param tracer - Tracer to record with (see {@link getHerokuTracer})
+ * @param operation - The GenAI operation name
+ * @param url - The API URL the request is sent to
+ * @param body - The request payload; only model and sampling parameters are recorded
+ * @returns The started span and a context carrying it for child spans
+ */
+export function startHerokuOperationSpan(
+  tracer: Tracer,
+  operation: HerokuGenAIOperation,
+  url: string,
+  body: Record<string, any>,
+): { span: Span; context: Context } {
+  const model: string | undefined = body.model;
+  const span = tracer.startSpan(model ? `${operation} ${model}` : operation, {
+    kind: SPAN_KIND_CLIENT,
+    attributes: {
+      "gen_ai.operation.name": operation,
+      "gen_ai.provider.name": HEROKU_PROVIDER_NAME,
+      "gen_ai.request.model": model,
+      "gen_ai.request.temperature": body.temperature,
+      "gen_ai.request.top_p": body.top_p,
+      "gen_ai.request.max_tokens":
+        body.max_tokens ?? body.max_tokens_per_inference_request,
+      "gen_ai.request.stop_sequences": body.stop,
+      "server.address": getServerAddress(url),
+    },
+  });
+  return {
+    span,
+    context: otel
+      ? otel.trace.setSpan(otel.context.active(), span)
+      : NOOP_CONTEXT,
+  };
+}
+
+/**
+ * Records response details (model, ID, finish reasons, token usage) on a span.
+ * Safe to call repeatedly while a stream is read; later values win.
+ *
+ * @param span - The operation span
+ * @param response - The response details known so far
+ */
+export function recordHerokuResponse(
+  span: Span,
+  response: HerokuSpanResponse,
+): void {
+  if (response.id) {
+    span.setAttribute("gen_ai.response.id", response.id);
+  }
+  if (response.model) {
+    span.setAttribute("gen_ai.response.model", response.model);
+  }
+  const finishReasons = response.finishReasons?.filter(
+    (reason): reason is string => typeof reason === "string",
+  );
+  if (finishReasons && finishReasons.length > 0) {
+    span.setAttribute("gen_ai.response.finish_reasons", finishReasons);
+  }
+  if (typeof response.usage?.prompt_tokens === "number") {
+    span.setAttribute(
+      "gen_ai.usage.input_tokens",
+      response.usage.prompt_tokens,
+    );
+  }
+  if (typeof response.usage?.completion_tokens === "number") {
+    span.setAttribute(
+      "gen_ai.usage.output_tokens",
+      response.usage.completion_tokens,
+    );
+  }
+}
+
+/**
+ * Marks a span as failed, recording the (redacted) exception and its type.
+ *
+ * @param span - The span to update
+ * @param error - The error that ended the operation
+ */
+export function recordHerokuSpanError(span: Span, error: unknown): void {
+  const err = redactHerokuSecrets(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+  span.recordException(err);
+  span.setAttribute("error.type", err.name || "Error");
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: err.message });
+}
+
+/**
+ * Starts the span for a single HTTP attempt made by the shared transport.
+ *
+ * @param tracer - Tracer to record with
+ * @param url - The request URL
+ * @param attempt - The 1-based attempt number
+ * @param parent - Context of the operation span (the active context by default)
+ * @param method - The HTTP method
+ * @returns The started span
+ */
+export function startHerokuAttemptSpan(
+  tracer: Tracer,
+  url: string,
+  attempt: number,
+  parent: Context | undefined = otel?.context.active(),
+  method: "GET" | "POST" = "POST",
+): Span {
+  return tracer.startSpan(
+    method,
+    {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        "http.request.method": method,
+        "url.full": url,
+        "server.address": getServerAddress(url),
+        "http.request.resend_count": attempt > 1 ? attempt - 1 : undefined,
+      },
+    },
+    parent,
+  );
+}
+
+/**
+ * Records the number of retries a request needed on its operation span.
+ *
+ * @param parent - Context of the operation span
+ * @param retries - Attempts made after the first one
+ */
+export function recordHerokuRetryCount(parent: Context, retries: number): void {
+  otel?.trace
+    .getSpan(parent)
+    ?.setAttribute("heroku.request.retry_count", retries);
+}
+
+/**
+ * Starts the span of a server-side agent tool execution, as a child of the agent
+ * operation, when the agent requests the tool call. End it with
+ * {@link endHerokuToolSpan} once the `tool.completion` or `tool.error` arrives.
+ *
+ * @param tracer - Tracer to record with
+ * @param parent - Context of the agent operation span
+ * @param tool - The tool call ID, name, and definition type
+ * @returns The started span
+ */
+export function startHerokuToolSpan(
+  tracer: Tracer,
+  parent: Context,
+  tool: { id?: string; name?: string; type?: string },
+): Span {
+  return tracer.startSpan(
+    tool.name ? `execute_tool ${tool.name}` : "execute_tool",
+    {
+      kind: SPAN_KIND_INTERNAL,
+      attributes: {
+        "gen_ai.operation.name": "execute_tool",
+        "gen_ai.provider.name": HEROKU_PROVIDER_NAME,
+        "gen_ai.tool.name": tool.name,
+        "gen_ai.tool.call.id": tool.id,
+        "gen_ai.tool.type": "extension",
+        "heroku.tool.type": tool.type,
+      },
+    },
+    parent,
+  );
+}
+
+/**
+ * Ends a tool span, marking it as failed when the tool returned an error.
+ *
+ * @param span - The span started by {@link startHerokuToolSpan}
+ * @param error - The tool error, for `tool.error` events
+ */
+export function endHerokuToolSpan(span: Span, error?: unknown): void {
+  if (error !== undefined) {
+    recordHerokuSpanError(span, error);
+    span.setAttribute("error.type", "tool_error");
+  }
+  span.end();
+}
@@ -1,15 +1,138 @@
 import {
+  BaseChatModel,
   BaseChatModelCallOptions,
   BaseChatModelParams,
 } from "@langchain/core/language_models/chat_models";
 import type { StructuredTool, ServerTool } from "@langchain/core/tools";
 import type { RunnableConfig } from "@langchain/core/runnables";
+import type { Tracer } from "@opentelemetry/api";
+import type { ConnectionOptions } from "node:tls";
+
+/**
+ * HTTP client options shared by all Heroku clients.
+ * Lets callers route requests through a custom fetch (e.g. an egress proxy agent)
+ * and attach extra headers (e.g. request IDs or tenant identifiers) to every request.
+ */
+export interface HerokuHttpClientFields {
+  /**
+   * Custom fetch implementation used for all HTTP requests.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Extra headers sent with every request.
+   * Merged over the default Content-Type header; the Authorization header is
+   * always derived from the API key.
+   */
+  defaultHeaders?: Record<string, string>;
+
+  /**
+   * HTTP status codes that are retried (up to maxRetries) with exponential backoff.
+   * A Retry-After header on the response takes precedence over the computed delay.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Hooks invoked around every HTTP attempt, including retries.
+   * Useful for logging, metrics, and tests.
+   */
+  transportHooks?: HerokuTransportHooks;
+
+  /**
+   * OpenTelemetry tracer used for operation, HTTP attempt, and agent tool spans.
+   * Spans are no-ops unless an OpenTelemetry SDK is registered.
+   * @default trace.getTracer("heroku-langchain")
+   */
+  tracer?: Tracer;
+}
+
+/**
+ * Identifies a single HTTP attempt made by the Heroku transport.
+ */
+export interface HerokuRequestAttempt {
+  /** The request URL */
+  url: string;
+  /** 1-based attempt number (1 is the initial request) */
+  attempt: number;
+}
+
+/**
+ * Outcome of a single HTTP attempt made by the Heroku transport.
+ */
+export interface HerokuRequestAttemptResult extends HerokuRequestAttempt {
+  /** Response status, when a response was received */
+  status?: number;
+  /** The network or API error, when the attempt failed */
+  error?: unknown;
+  /** Time spent on the attempt in milliseconds */
+  durationMs: number;
+  /** Delay before the next attempt; undefined when no retry follows */
+  retryDelayMs?: number;
+}
+
+/**
+ * Per-attempt hooks for the Heroku transport.
+ */
+export interface HerokuTransportHooks {
+  /** Called before each attempt is sent */
+  onAttemptStart?: (attempt: HerokuRequestAttempt) => void;
+  /** Called after each attempt completes or fails */
+  onAttemptEnd?: (result: HerokuRequestAttemptResult) => void;
+}
+
+/**
+ * Severity levels understood by the Heroku logger, from most to least verbose.
+ * `silent` disables logging entirely.
+ */
+export type HerokuLogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured fields attached to a log line.
+ */
+export type HerokuLogFields = Record<string, unknown>;
+
+/**
+ * Logger used for the diagnostics produced by the Heroku clients.
+ * The method signatures match pino, so a pino (or compatible) logger can be passed
+ * directly. When `child` is available it is used to bind the class namespace.
+ */
+export interface HerokuLogger {
+  debug(fields: HerokuLogFields, message: string): void;
+  info(fields: HerokuLogFields, message: string): void;
+  warn(fields: HerokuLogFields, message: string): void;
+  error(fields: HerokuLogFields, message: string): void;
+  child?(bindings: HerokuLogFields): HerokuLogger;
+}
+
+/**
+ * Logging options shared by the Heroku clients.
+ */
+export interface HerokuLoggerFields {
+  /**
+   * Logger receiving diagnostics. Messages and fields are redacted before they
+   * reach it.
+   * @default a console logger prefixed with the class name
+   */
+  logger?: HerokuLogger;
+
+  /**
+   * Minimum level that is logged. Falls back to the HEROKU_LANGCHAIN_LOG_LEVEL
+   * environment variable, then to "debug" when DEBUG_CHAT_HEROKU or DEBUG_TOOLS
+   * is set, then to "warn".
+   */
+  logLevel?: HerokuLogLevel;
+}
 
 /**
  * Interface for the fields to instantiate ChatHeroku.
  * Extends BaseChatModelParams and includes Heroku-specific parameters.
  */
-export interface ChatHerokuFields extends BaseChatModelParams {
+export interface ChatHerokuFields
+  extends BaseChatModelParams,
+    HerokuHttpClientFields,
+    HerokuLoggerFields {
   /**
    * The model ID to use for completion (e.g., "gpt-oss-120b").
    * As specified in Heroku API documentation.
@@ -79,6 +202,12 @@ export interface ChatHerokuFields extends BaseChatModelParams {
    */
   timeout?: number;
 
+  /**
+   * Maximum time in milliseconds to wait between chunks of a streaming response.
+   * The stream is torn down when it is exceeded. Disabled by default.
+   */
+  streamIdleTimeout?: number;
+
   /**
    * Alias for stream for consistency. Sets default for internal
    * _generate method's streaming behavior.
@@ -87,14 +216,46 @@ export interface ChatHerokuFields extends BaseChatModelParams {
   streaming?: boolean;
 
   /**
-   * Allows passing other Heroku-specific parameters not explicitly defined
-   * (e.g., extended_thinking).
+   * Enables extended thinking on models that support it.
+   * `true` enables it with the API defaults; an object also sets the token budget
+   * and whether reasoning is returned. Maps to extended_thinking in Heroku API.
+   * Returned reasoning is surfaced as `reasoning` content blocks.
+   * @default undefined
+   */
+  thinking?: boolean | ChatHerokuThinkingConfig;
+
+  /**
+   * Allows passing other Heroku-specific parameters not explicitly defined.
    * Provides flexibility for future Heroku API additions or less common parameters.
    * @default {}
    */
   additionalKwargs?: Record<string, any>;
 }
 
+/**
+ * Extended thinking configuration for ChatHeroku.
+ */
+export interface ChatHerokuThinkingConfig {
+  /**
+   * Whether extended thinking is enabled.
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum number of tokens the model may spend on reasoning.
+   * Maps to budget_tokens in Heroku API.
+   */
+  budgetTokens?: number;
+
+  /**
+   * Whether the reasoning is returned in the response.
+   * Maps to include_reasoning in Heroku API.
+   * @default true
+   */
+  includeReasoning?: boolean;
+}
+
 /**
  * Interface for the options that can be passed at runtime to ChatHeroku methods.
  * Extends BaseChatModelCallOptions and includes Heroku-specific tool parameters.
@@ -121,11 +282,15 @@ export interface ChatHerokuCallOptions extends BaseChatModelCallOptions {
     | { type: "function"; function: { name: string } };
 
   /**
-   * Allows passing other Heroku-specific parameters not explicitly defined
-   * (e.g., extended_thinking) at runtime.
+   * Allows passing other Heroku-specific parameters not explicitly defined at runtime.
    */
   additionalKwargs?: Record<string, any>;
 
+  /**
+   * Overrides the extended thinking configuration for this call.
+   */
+  thinking?: boolean | ChatHerokuThinkingConfig;
+
   // Overrides for constructor parameters, if allowed by BaseChatModelCallOptions
   // and make sense for ChatHeroku.
   temperature?: number;
@@ -159,12 +324,57 @@ export interface HerokuToolMessageContent {
   // name?: string; // Optional: Heroku docs show name for function in tool_call, not explicitly here
 }
 
+/**
+ * Text content part of a multimodal message, as per Heroku API.
+ */
+export interface HerokuTextContentPart {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Image content part of a multimodal message, as per Heroku API.
+ * The URL can be a remote image URL or a base64 data URL (e.g. "data:image/png;base64,...").
+ */
+export interface HerokuImageUrlContentPart {
+  type: "image_url";
+  image_url: {
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+/**
+ * A content part of a multimodal message sent to vision-capable models.
+ */
+export type HerokuChatContentPart =
+  | HerokuTextContentPart
+  | HerokuImageUrlContentPart;
+
+/**
+ * Reasoning returned by models with extended thinking enabled, as per Heroku API.
+ */
+export interface HerokuReasoning {
+  thinking: string;
+  signature?: string;
+}
+
+/**
+ * Extended thinking settings in a Heroku chat completion request.
+ */
+export interface HerokuExtendedThinking {
+  enabled: boolean;
+  budget_tokens?: number;
+  include_reasoning?: boolean;
+}
+
 /**
  * Structure for a message in the Heroku API request/response.
  */
 export interface HerokuChatMessage {
   role: HerokuChatMessageRole;
-  content: string | HerokuToolMessageContent[]; // string for system, user, assistant (text); array for tool role
+  content: string | HerokuChatContentPart[] | HerokuToolMessageContent[]; // string for text; content parts for multimodal user messages; array for tool role
+  reasoning?: HerokuReasoning; // For assistant messages when extended thinking is enabled
   name?: string; // Optional: Used for function name in tool_calls, or tool_call_id in tool message
   tool_calls?: HerokuToolCall[]; // For assistant message if it makes tool calls
   tool_call_id?: string; // For tool message, linking to assistant's tool_call
@@ -210,7 +420,7 @@ export interface HerokuChatCompletionRequest {
     | "auto"
     | "required"
     | { type: "function"; function: { name: string } };
-  extended_thinking?: boolean; // Example of an additionalKwargs passthrough
+  extended_thinking?: HerokuExtendedThinking;
   // Potentially other fields from additionalKwargs
   [key: string]: any;
 }
@@ -259,6 +469,7 @@ export interface HerokuChatCompletionResponse {
 export interface HerokuChatCompletionStreamChoiceDelta {
   role?: HerokuChatMessageRole; // Typically "assistant"
   content?: string | null; // Null if only tool_calls are being streamed
+  reasoning?: Partial<HerokuReasoning>; // Incremental reasoning when extended thinking is enabled
   tool_calls?: Partial<HerokuToolCall>[]; // Incremental tool call chunks
 }
 
@@ -284,7 +495,7 @@ export interface HerokuChatCompletionStreamResponse {
   created: number;
   model: string;
   choices: HerokuChatCompletionStreamChoice[];
-  // usage?: HerokuChatCompletionUsage; // Usage might appear in the last chunk or not at all
+  usage?: HerokuChatCompletionUsage; // Usually only present on the last chunk
 }
 
 // --- LangChain Compatibility Types (if not directly importable/mismatch) ---
@@ -306,7 +517,10 @@ export interface LocalToolCallChunk {
  * Interface for the fields to instantiate HerokuAgent.
  * Extends BaseChatModelParams and includes Heroku-specific agent parameters.
  */
-export interface HerokuAgentFields extends BaseChatModelParams {
+export interface HerokuAgentFields
+  extends BaseChatModelParams,
+    HerokuHttpClientFields,
+    HerokuLoggerFields {
   /**
    * The model ID to use for the agent.
    * If not provided, defaults to process.env.INFERENCE_MODEL_ID.
@@ -336,8 +550,80 @@ export interface HerokuAgentFields extends BaseChatModelParams {
   maxRetries?: number;
   /** Timeout for API calls in ms */
   timeout?: number;
+  /** Max time in ms to wait between chunks of the agent event stream. Disabled by default. */
+  streamIdleTimeout?: number;
   /** Allows passing any other Heroku-specific agent parameters not explicitly defined. @default {} */
   additionalKwargs?: Record<string, any>;
+  /**
+   * Runs the tool loop in-process against a stand-in model and local tool
+   * implementations instead of calling the agent endpoint. Meant for tests.
+   */
+  localTools?: HerokuAgentLocalToolsOptions;
+  /**
+   * Requires approval before gated server-side tools are given to the agent. The
+   * request is sent only once the policy's interrupt (LangGraph's `interrupt()` by
+   * default) has decided on every gated tool.
+   */
+  approvalPolicy?: HerokuToolApprovalPolicy;
+}
+
+/**
+ * A gated tool waiting for approval before the agent request is sent. Passed to
+ * the approval policy's `interrupt`, so it is the value surfaced by a LangGraph
+ * interrupt.
+ */
+export interface HerokuToolApprovalRequest {
+  type: "heroku_tool_approval";
+  tool_name: string;
+  /** Tool definition type ("heroku_tool" or "mcp") */
+  tool_type?: string;
+  /** Arguments the tool is configured with (its target app and tool_params) */
+  args: Record<string, any>;
+}
+
+/**
+ * Decision on a gated tool call: `true`/`false`, or an object with an optional
+ * rejection reason. This is the value a LangGraph run is resumed with.
+ */
+export type HerokuToolApprovalDecision =
+  | boolean
+  | { approved: boolean; reason?: string };
+
+/**
+ * Approval policy for HerokuAgent tool calls.
+ */
+export interface HerokuToolApprovalPolicy {
+  /** Names of the tools that need approval, or a predicate over the request */
+  tools: string[] | ((request: HerokuToolApprovalRequest) => boolean);
+  /**
+   * Asks for a decision. Defaults to LangGraph's `interrupt()`, which pauses the
+   * graph until it is resumed with `new Command({ resume: decision })`.
+   */
+  interrupt?: (
+    request: HerokuToolApprovalRequest,
+  ) => HerokuToolApprovalDecision | Promise<HerokuToolApprovalDecision>;
+}
+
+/**
+ * Local implementation of a heroku_tool or mcp tool, used in local tools mode.
+ * Non-string results are JSON-encoded; a thrown error is reported as a `tool.error`.
+ */
+export type HerokuLocalToolImplementation = (
+  args: Record<string, any>,
+  tool: HerokuAgentToolDefinition,
+) => unknown | Promise<unknown>;
+
+/**
+ * Options for HerokuAgent's local tools mode, where the tool loop runs client-side
+ * so agent flows can be exercised offline.
+ */
+export interface HerokuAgentLocalToolsOptions {
+  /** Chat model standing in for the agent endpoint; it decides which tools to call */
+  model: BaseChatModel;
+  /** Local implementations of the agent's tools, keyed by tool name */
+  implementations: Record<string, HerokuLocalToolImplementation>;
+  /** Model turns allowed before the run fails with an agent error @default 10 */
+  maxIterations?: number;
 }
 
 /**
@@ -365,6 +651,66 @@ export interface HerokuAgentToolDefinition extends ServerTool {
     max_calls?: number;
     tool_params?: Record<string, any>;
   };
+  /**
+   * JSON schema of the tool's input, e.g. from MCP discovery. Used for the local
+   * tool bound by `bindTools`; not sent to the agent.
+   */
+  input_schema?: Record<string, any>;
+}
+
+/**
+ * A tool exposed by an MCP server registered on the app's Heroku MCP Toolkit.
+ */
+export interface HerokuMcpServerTool {
+  /** Tool name on its server */
+  name: string;
+  /** Name the agent knows the tool by, `<server>/<tool>` */
+  namespaced_name: string;
+  description?: string;
+  /** JSON schema of the tool's input */
+  input_schema?: Record<string, any>;
+  annotations?: Record<string, any>;
+}
+
+/**
+ * An MCP server registered on the app's Heroku MCP Toolkit,
+ * as returned by GET /v1/mcp/servers.
+ */
+export interface HerokuMcpServer {
+  id: string;
+  app_id?: string;
+  /** Process type the server runs as; also the namespace of its tools */
+  process_type?: string;
+  process_command?: string;
+  namespace?: string;
+  server_status?: string;
+  primitives_status?: string;
+  created_at?: string;
+  updated_at?: string;
+  tools: HerokuMcpServerTool[];
+}
+
+/**
+ * Options for listing the MCP tools registered on the app's Heroku MCP Toolkit.
+ */
+export interface HerokuMcpToolsOptions extends HerokuHttpClientFields {
+  /** Heroku API Key. Reads from env INFERENCE_KEY if not provided. */
+  apiKey?: string;
+  /** Heroku API Base URL. Reads from env INFERENCE_URL, defaults to inference.heroku.com. */
+  apiUrl?: string;
+  /**
+   * Globs over `<server>/<tool>` names to keep, e.g. "mcp-brave/*".
+   * `*` matches within a segment, `**` across segments. Keeps every tool when omitted.
+   */
+  include?: string | string[];
+  /** Globs over `<server>/<tool>` names to drop; applied after `include`. */
+  exclude?: string | string[];
+  /** Maximum number of retries for failed requests @default 2 */
+  maxRetries?: number;
+  /** Timeout for the request in ms */
+  timeout?: number;
+  /** Cancels the request */
+  signal?: AbortSignal;
 }
 
 /**
@@ -372,6 +718,30 @@ export interface HerokuAgentToolDefinition extends ServerTool {
  */
 export type HerokuTool = HerokuAgentToolDefinition;
 
+/**
+ * One server-side tool execution observed during a HerokuAgent run.
+ * Exposed in order as `additional_kwargs.server_tool_results` on the agent's message.
+ */
+export interface HerokuAgentToolResult {
+  /** Tool call ID; absent for a tool rejected before the request was sent */
+  tool_call_id?: string;
+  tool_name: string;
+  /** Arguments the tool ran with (falls back to the tool's runtime_params) */
+  args?: Record<string, any>;
+  /** Tool output, when the tool succeeded */
+  result?: string;
+  /** Error message, when the tool failed */
+  error?: string;
+}
+
+/**
+ * A segment of a HerokuAgent run, in stream order: assistant text written between
+ * tool executions, or a tool execution. Exposed as `additional_kwargs.transcript`.
+ */
+export type HerokuAgentTranscriptSegment =
+  | { type: "text"; text: string }
+  | ({ type: "tool_result" } & HerokuAgentToolResult);
+
 /**
  * Base request payload for Heroku Agent API interactions.
  */
@@ -462,10 +832,30 @@ export interface HerokuAgentStreamEndEvent {
   event: "stream.end";
   data: {
     final_message?: HerokuChatMessage; // Optional final message from the agent
+    session_id?: string; // Session the conversation continues in, when known
     // Any other fields Heroku sends with stream.end
   };
 }
 
+/** Event: `usage` (Token usage of one inference request made by the agent) */
+export interface HerokuAgentUsageEvent {
+  event: "usage";
+  data: HerokuChatCompletionUsage;
+}
+
+/**
+ * Events yielded by `HerokuAgent.streamAgentEvents()`, discriminated by `event`.
+ * `stream.end` is always the last event of a stream that finished without an error.
+ */
+export type HerokuAgentEvent =
+  | HerokuAgentMessageDeltaEvent
+  | HerokuAgentToolCallEvent
+  | HerokuAgentToolCompletionEvent
+  | HerokuAgentToolErrorEvent
+  | HerokuAgentAgentErrorEvent
+  | HerokuAgentUsageEvent
+  | HerokuAgentStreamEndEvent;
+
 /** Union type for all possible Heroku Agent SSE data payloads (after JSON parsing `data` field of ParsedSSEEvent) */
 export type HerokuAgentSSEData =
   | HerokuAgentMessageDeltaEvent["data"]
@@ -481,7 +871,9 @@ export type HerokuAgentSSEData =
  * Interface for the fields to instantiate HerokuEmbeddings.
  * Extends standard embedding parameters and includes Heroku-specific configuration.
  */
-export interface HerokuEmbeddingsFields {
+export interface HerokuEmbeddingsFields
+  extends HerokuHttpClientFields,
+    HerokuLoggerFields {
   /**
    * The model ID to use for embeddings (e.g., "cohere-embed-multilingual").
    * As specified in Heroku embeddings API documentation.
@@ -522,8 +914,124 @@ export interface HerokuEmbeddingsFields {
    * @default {}
    */
   additionalKwargs?: Record<string, any>;
+
+  /**
+   * Maximum number of inputs sent in one request. Larger `embedDocuments` calls
+   * are split into batches of this size, capped at the API limit of 96.
+   * @default 96
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of batch requests in flight at once.
+   * @default 4
+   */
+  maxConcurrency?: number;
+
+  /**
+   * How `embedDocuments` handles inputs longer than 2048 characters.
+   * @default "chunk"
+   */
+  oversizedInputs?: HerokuEmbeddingsOversizedInputPolicy;
+
+  /**
+   * How long queries, and documents under the "chunk" policy, are split into
+   * chunks and how the chunk embeddings are combined.
+   * @default { boundary: "character", chunkSize: 2048, overlap: 0, pooling: "mean" }
+   */
+  chunking?: HerokuEmbeddingsChunkingOptions;
+
+  /**
+   * Cache for embeddings. Inputs already in the cache are not sent to the API.
+   * Use HerokuInMemoryEmbeddingsCache, HerokuRedisEmbeddingsCache, or any store
+   * with `mget`/`mset`, such as a LangChain `BaseStore`. Store errors are
+   * logged and the inputs are embedded through the API instead.
+   */
+  cache?: HerokuEmbeddingsCacheStore;
+}
+
+/**
+ * Chunking strategy for texts longer than the chunk size.
+ */
+export interface HerokuEmbeddingsChunkingOptions {
+  /**
+   * Where chunks may end:
+   * - "character": every `chunkSize` characters, even mid-word
+   * - "sentence": after sentence-ending punctuation or a line break
+   * - "paragraph": after a blank line
+   *
+   * Sentences or paragraphs longer than `chunkSize` are split between words.
+   * @default "character"
+   */
+  boundary?: "character" | "sentence" | "paragraph";
+
+  /**
+   * Maximum characters per chunk, capped at the API limit of 2048.
+   * @default 2048
+   */
+  chunkSize?: number;
+
+  /**
+   * Characters from the end of a chunk repeated at the start of the next, so
+   * context spanning a boundary is embedded together. With sentence or paragraph
+   * boundaries, whole sentences or paragraphs up to this length are repeated.
+   * Must be less than `chunkSize`.
+   * @default 0
+   */
+  overlap?: number;
+
+  /**
+   * How chunk embeddings are combined into one vector:
+   * - "mean": average of the chunk embeddings
+   * - "weighted_mean": average weighted by chunk length, so short trailing chunks count less
+   * - "max": element-wise maximum (max-pooling)
+   * - "first": embed only the first chunk
+   * @default "mean"
+   */
+  pooling?: "mean" | "weighted_mean" | "max" | "first";
 }
 
+/**
+ * Key-value store used to cache embeddings, keyed by model, input type,
+ * embedding type and a hash of the text. Compatible with LangChain's `BaseStore`.
+ */
+export interface HerokuEmbeddingsCacheStore {
+  /** Returns the cached vector for each key, or undefined on a miss. */
+  mget(keys: string[]): Promise<(number[] | undefined)[]>;
+
+  /** Stores vectors by key. */
+  mset(entries: [string, number[]][]): Promise<void>;
+}
+
+/**
+ * How HerokuEmbeddings handles document inputs longer than the API's 2048 character limit.
+ * - "chunk": split into chunks and pool their embeddings per the `chunking` options, as `embedQuery` does
+ * - "truncate": embed only the first 2048 characters
+ * - "error": throw before sending any request
+ */
+export type HerokuEmbeddingsOversizedInputPolicy =
+  | "chunk"
+  | "truncate"
+  | "error";
+
+/**
+ * Embedding types supported by the Heroku embeddings API.
+ * "binary" and "ubinary" pack one bit per dimension, 8 dimensions per byte.
+ */
+export type HerokuEmbeddingType =
+  | "float"
+  | "int8"
+  | "uint8"
+  | "binary"
+  | "ubinary";
+
+/**
+ * A decoded embedding from `HerokuEmbeddings.embedDocumentsTyped()`:
+ * `Float32Array` for "float", `Int8Array` for "int8" and "binary",
+ * `Uint8Array` for "uint8" and "ubinary".
+ */
+export type HerokuTypedEmbedding = Float32Array | Int8Array | Uint8Array;
+
 /**
  * Interface for call-time options when using HerokuEmbeddings.
  * These options can be passed to embedDocuments() and embedQuery() methods.
@@ -555,7 +1063,7 @@ export interface HerokuEmbeddingsCallOptions extends RunnableConfig {
   /**
    * Type of embedding to generate.
    */
-  embedding_type?: "float" | "int8" | "uint8" | "binary" | "ubinary";
+  embedding_type?: HerokuEmbeddingType;
 
   /**
    * How to handle inputs longer than the maximum length.
@@ -603,7 +1111,7 @@ export interface HerokuEmbeddingsRequest {
    * Type of embedding to generate.
    * @default "float"
    */
-  embedding_type?: "float" | "int8" | "uint8" | "binary" | "ubinary";
+  embedding_type?: HerokuEmbeddingType;
 
   /**
    * How to handle inputs longer than the maximum length.
@@ -622,9 +1130,10 @@ export interface HerokuEmbeddingsRequest {
  */
 export interface HerokuEmbeddingObject {
   /**
-   * The embedding vector as an array of floats.
+   * The embedding vector as an array of numbers, or as base64-encoded bytes
+   * when `encoding_format` is "base64".
    */
-  embedding: number[];
+  embedding: number[] | string;
 
   /**
    * Index of this embedding in the input array.
@@ -676,3 +1185,428 @@ export interface HerokuEmbeddingsResponse {
    */
   usage: HerokuEmbeddingsUsage;
 }
+
+// --- Heroku Image Generation API Specific Types ---
+
+/**
+ * Interface for the fields to instantiate HerokuImageGeneration.
+ * Includes Heroku-specific configuration for diffusion models (e.g. Stable Image Ultra).
+ */
+export interface HerokuImageGenerationFields
+  extends HerokuHttpClientFields,
+    HerokuLoggerFields {
+  /**
+   * The model ID to use for image generation (e.g., "stable-image-ultra").
+   * If not provided, defaults to process.env.DIFFUSION_MODEL_ID.
+   */
+  model?: string;
+
+  /**
+   * Heroku Diffusion API Key (DIFFUSION_KEY).
+   * If not provided, the library will check the environment variable DIFFUSION_KEY.
+   */
+  apiKey?: string;
+
+  /**
+   * Heroku Diffusion API Base URL (DIFFUSION_URL).
+   * If not provided, checks env var DIFFUSION_URL or uses a sensible Heroku default.
+   * The endpoint path is /v1/images/generations.
+   */
+  apiUrl?: string;
+
+  /**
+   * Default size of the generated images (e.g., "1024x1024").
+   */
+  size?: string;
+
+  /**
+   * Default number of diffusion steps.
+   */
+  steps?: number;
+
+  /**
+   * Default format of the returned images.
+   * @default "b64_json"
+   */
+  responseFormat?: "b64_json" | "url";
+
+  /**
+   * Maximum number of retries for failed requests.
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Timeout for API requests in milliseconds.
+   */
+  timeout?: number;
+
+  /**
+   * Allows passing other Heroku-specific parameters not explicitly defined
+   * (e.g., aspect_ratio, output_format).
+   * @default {}
+   */
+  additionalKwargs?: Record<string, any>;
+}
+
+/**
+ * Interface for call-time options when using HerokuImageGeneration.
+ */
+export interface HerokuImageGenerationCallOptions extends RunnableConfig {
+  /**
+   * Override the default model for this specific call.
+   */
+  model?: string;
+
+  /**
+   * Things the generated image should not contain.
+   */
+  negativePrompt?: string;
+
+  /**
+   * Size of the generated images (e.g., "1024x1024").
+   */
+  size?: string;
+
+  /**
+   * Seed for reproducible generations.
+   */
+  seed?: number;
+
+  /**
+   * Number of diffusion steps.
+   */
+  steps?: number;
+
+  /**
+   * Number of images to generate.
+   */
+  n?: number;
+
+  /**
+   * Format of the returned images.
+   */
+  responseFormat?: "b64_json" | "url";
+
+  /**
+   * Additional options to pass to the Heroku image generation API.
+   */
+  additionalKwargs?: Record<string, any>;
+}
+
+/**
+ * Input accepted by HerokuImageGeneration: a prompt, or a prompt with per-call options.
+ */
+export type HerokuImageGenerationInput =
+  | string
+  | ({ prompt: string } & Omit<
+      HerokuImageGenerationCallOptions,
+      keyof RunnableConfig
+    >);
+
+/**
+ * Request payload for Heroku /v1/images/generations API.
+ */
+export interface HerokuImageGenerationRequest {
+  /**
+   * Model ID to use for image generation.
+   */
+  model: string;
+
+  /**
+   * Description of the image to generate.
+   */
+  prompt: string;
+
+  /**
+   * Things the generated image should not contain.
+   */
+  negative_prompt?: string;
+
+  /**
+   * Size of the generated images (e.g., "1024x1024").
+   */
+  size?: string;
+
+  /**
+   * Seed for reproducible generations.
+   */
+  seed?: number;
+
+  /**
+   * Number of diffusion steps.
+   */
+  steps?: number;
+
+  /**
+   * Number of images to generate.
+   */
+  n?: number;
+
+  /**
+   * Format of the returned images.
+   * @default "b64_json"
+   */
+  response_format?: "b64_json" | "url";
+
+  /**
+   * Additional parameters for future compatibility.
+   */
+  [key: string]: any;
+}
+
+/**
+ * Individual image in the image generation response.
+ */
+export interface HerokuGeneratedImage {
+  /**
+   * Base64-encoded image, when `response_format` is "b64_json".
+   */
+  b64_json?: string;
+
+  /**
+   * URL of the image, when `response_format` is "url".
+   */
+  url?: string;
+
+  /**
+   * The prompt the model actually used, if it was rewritten.
+   */
+  revised_prompt?: string;
+}
+
+/**
+ * Response from Heroku /v1/images/generations API.
+ */
+export interface HerokuImageGenerationResponse {
+  /**
+   * Unix timestamp of the generation.
+   */
+  created: number;
+
+  /**
+   * Generated images.
+   */
+  data: HerokuGeneratedImage[];
+}
+
+// --- Heroku Rerank API Specific Types ---
+
+/**
+ * Interface for the fields to instantiate HerokuRerank.
+ * Includes Heroku-specific configuration for the rerank models (e.g. Cohere Rerank).
+ */
+export interface HerokuRerankFields
+  extends HerokuHttpClientFields,
+    HerokuLoggerFields {
+  /**
+   * The model ID to use for reranking (e.g., "cohere-rerank-3-5").
+   * If not provided, defaults to process.env.RERANK_MODEL_ID.
+   */
+  model?: string;
+
+  /**
+   * Heroku Rerank API Key (RERANK_KEY).
+   * If not provided, the library will check the environment variable RERANK_KEY.
+   */
+  apiKey?: string;
+
+  /**
+   * Heroku Rerank API Base URL (RERANK_URL).
+   * If not provided, checks env var RERANK_URL or uses a sensible Heroku default.
+   * The endpoint path is /v1/rerank.
+   */
+  apiUrl?: string;
+
+  /**
+   * Maximum number of documents to return, ordered by relevance.
+   * Returns every document when omitted.
+   */
+  topN?: number;
+
+  /**
+   * Maximum number of retries for failed requests.
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Timeout for API requests in milliseconds.
+   */
+  timeout?: number;
+
+  /**
+   * Allows passing other Heroku-specific parameters not explicitly defined.
+   * @default {}
+   */
+  additionalKwargs?: Record<string, any>;
+}
+
+/**
+ * Interface for call-time options when using HerokuRerank.
+ */
+export interface HerokuRerankCallOptions {
+  /**
+   * Override the default model for this specific call.
+   */
+  model?: string;
+
+  /**
+   * Override the maximum number of documents returned for this call.
+   */
+  topN?: number;
+
+  /**
+   * Additional options to pass to the Heroku rerank API.
+   */
+  additionalKwargs?: Record<string, any>;
+
+  /**
+   * Cancels the request and any pending retries when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request payload for Heroku /v1/rerank API.
+ */
+export interface HerokuRerankRequest {
+  /**
+   * Model ID to use for reranking.
+   */
+  model: string;
+
+  /**
+   * The search query the documents are ranked against.
+   */
+  query: string;
+
+  /**
+   * Documents to rerank.
+   */
+  documents: string[];
+
+  /**
+   * Maximum number of results to return.
+   */
+  top_n?: number;
+
+  /**
+   * Additional parameters for future compatibility.
+   */
+  [key: string]: any;
+}
+
+/**
+ * Individual result in the rerank response.
+ */
+export interface HerokuRerankResult {
+  /**
+   * Index of the document in the request's `documents` array.
+   */
+  index: number;
+
+  /**
+   * Relevance of the document to the query, between 0 and 1.
+   */
+  relevance_score: number;
+}
+
+/**
+ * Response from Heroku /v1/rerank API.
+ */
+export interface HerokuRerankResponse {
+  /**
+   * Identifier of the rerank request.
+   */
+  id?: string;
+
+  /**
+   * Results ordered by descending relevance.
+   */
+  results: HerokuRerankResult[];
+
+  /**
+   * Additional response metadata (e.g. billed units).
+   */
+  meta?: Record<string, any>;
+}
+
+/**
+ * Minimal Postgres client used by HerokuPgVectorStore. A `pg` Pool or Client
+ * satisfies it.
+ */
+export interface HerokuPgQueryable {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Comparison operators for a metadata field in a HerokuPgVectorStore filter.
+ */
+export interface HerokuPgVectorFilterOperators {
+  $eq?: unknown;
+  $ne?: unknown;
+  $in?: (string | number | boolean)[];
+  $nin?: (string | number | boolean)[];
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+}
+
+/**
+ * Metadata filter for HerokuPgVectorStore searches. Each key is a metadata field
+ * matched by value (JSON containment) or with comparison operators; all keys must match.
+ *
+ * @example
+ * ```typescript
+ * { source: "handbook", year: { $gte: 2023 }, team: { $in: ["data", "ops"] } }
+ * ```
+ */
+export type HerokuPgVectorFilter = Record<
+  string,
+  unknown | HerokuPgVectorFilterOperators
+>;
+
+/**
+ * Configuration options for HerokuPgVectorStore.
+ */
+export interface HerokuPgVectorStoreFields {
+  /**
+   * Postgres client or pool to use. When omitted, a `pg` Pool is created for
+   * `connectionString` (the optional `pg` package must be installed).
+   */
+  pool?: HerokuPgQueryable;
+
+  /**
+   * Postgres connection string.
+   * If not provided, the library will check the environment variable DATABASE_URL.
+   */
+  connectionString?: string;
+
+  /**
+   * TLS options for the pool created from `connectionString`, passed to `pg`.
+   * Heroku Postgres requires TLS with a certificate that is not publicly
+   * trusted, so pass `{ rejectUnauthorized: false }` (or a `ca`) to connect to
+   * it. When omitted, the connection string's `sslmode` applies.
+   */
+  ssl?: boolean | ConnectionOptions;
+
+  /**
+   * Table the documents are stored in.
+   * @default "langchain_pg_embedding"
+   */
+  tableName?: string;
+
+  /**
+   * Embedding dimension of the vector column. Taken from the first embedding
+   * written or searched when omitted.
+   */
+  dimensions?: number;
+
+  /**
+   * Create the pgvector extension, table, and index when they do not exist.
+   * @default true
+   */
+  ensureTable?: boolean;
+}
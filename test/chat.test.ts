@@ -1,7 +1,7 @@
 import { test, describe, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import { ChatHeroku } from "../src/chat";
-import { HerokuApiError } from "../src/common";
+import { HerokuApiError, HerokuStreamError } from "../src/common";
 import { HumanMessage, AIMessage } from "@langchain/core/messages";
 import { z } from "zod";
 
@@ -266,6 +266,43 @@ describe("ChatHeroku", () => {
         assert(boundMia instanceof ChatHeroku);
       });
     });
+
+    test("should keep the custom fetch and default headers on bound models", async () => {
+      const capturedHeaders: Record<string, string>[] = [];
+      const customFetch = (async (_url: string, init: RequestInit) => {
+        capturedHeaders.push(init.headers as Record<string, string>);
+        return new Response(
+          JSON.stringify({
+            id: "chatcmpl-4",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: "Hi" },
+                finish_reason: "stop",
+              },
+            ],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+
+      const herokuMia = new ChatHeroku({
+        fetch: customFetch,
+        defaultHeaders: { "X-Request-Id": "req-42" },
+      });
+      await herokuMia.bindTools([]).invoke([new HumanMessage("Hi")]);
+
+      assert.strictEqual(capturedHeaders.length, 1);
+      assert.strictEqual(capturedHeaders[0]["X-Request-Id"], "req-42");
+      assert.strictEqual(
+        capturedHeaders[0].Authorization,
+        "Bearer test-api-key",
+      );
+    });
   });
 
   describe("Call options", () => {
@@ -455,4 +492,327 @@ describe("ChatHeroku", () => {
       );
     });
   });
+
+  describe("Usage metadata", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    const sseResponse = (events: unknown[]) => {
+      const body = events
+        .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+        .join("");
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    };
+
+    test("should populate usage_metadata on invoke", async () => {
+      globalThis.fetch = (async () =>
+        new Response(
+          JSON.stringify({
+            id: "chatcmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: "Hello!" },
+                finish_reason: "stop",
+              },
+            ],
+            usage: { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 },
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        )) as typeof fetch;
+
+      const llm = new ChatHeroku({});
+      const result = await llm.invoke([new HumanMessage("Hi")]);
+
+      assert.strictEqual(result.content, "Hello!");
+      assert.deepStrictEqual(result.usage_metadata, {
+        input_tokens: 9,
+        output_tokens: 3,
+        total_tokens: 12,
+      });
+    });
+
+    test("should populate usage_metadata on the last streamed chunk", async () => {
+      globalThis.fetch = (async () =>
+        sseResponse([
+          {
+            id: "c1",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Hel" }, finish_reason: null },
+            ],
+          },
+          {
+            id: "c1",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "lo" }, finish_reason: "stop" },
+            ],
+            usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+          },
+        ])) as typeof fetch;
+
+      const llm = new ChatHeroku({});
+      const chunks = [];
+      for await (const chunk of await llm.stream([new HumanMessage("Hi")])) {
+        chunks.push(chunk);
+      }
+
+      assert.strictEqual(chunks[0].usage_metadata, undefined);
+      assert.deepStrictEqual(chunks.at(-1)?.usage_metadata, {
+        input_tokens: 4,
+        output_tokens: 2,
+        total_tokens: 6,
+      });
+    });
+
+    test("should keep usage_metadata when invoke aggregates a stream", async () => {
+      globalThis.fetch = (async () =>
+        sseResponse([
+          {
+            id: "c2",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Done" }, finish_reason: "stop" },
+            ],
+          },
+          {
+            id: "c2",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "test-model",
+            choices: [],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          },
+        ])) as typeof fetch;
+
+      const llm = new ChatHeroku({ streaming: true });
+      const result = await llm.invoke([new HumanMessage("Hi")]);
+
+      assert.strictEqual(result.content, "Done");
+      assert.deepStrictEqual(result.usage_metadata, {
+        input_tokens: 1,
+        output_tokens: 1,
+        total_tokens: 2,
+      });
+    });
+  });
+
+  describe("Extended thinking", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    const sseResponse = (events: unknown[]) => {
+      const body = events
+        .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+        .join("");
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    };
+
+    const streamChunk = (delta: Record<string, unknown>) => ({
+      id: "c3",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "test-model",
+      choices: [{ index: 0, delta, finish_reason: null }],
+    });
+
+    test("should map the thinking option to extended_thinking", async () => {
+      const payloads: any[] = [];
+      globalThis.fetch = (async (_url: string, init: RequestInit) => {
+        payloads.push(JSON.parse(init.body as string));
+        return new Response(
+          JSON.stringify({
+            id: "chatcmpl-2",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: "Hi" },
+                finish_reason: "stop",
+              },
+            ],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+
+      const llm = new ChatHeroku({ thinking: { budgetTokens: 2048 } });
+      await llm.invoke([new HumanMessage("Hi")]);
+      await llm.invoke([new HumanMessage("Hi")], { thinking: false });
+
+      assert.deepStrictEqual(payloads[0].extended_thinking, {
+        enabled: true,
+        include_reasoning: true,
+        budget_tokens: 2048,
+      });
+      assert.deepStrictEqual(payloads[1].extended_thinking, { enabled: false });
+    });
+
+    test("should return reasoning as a separate content block on invoke", async () => {
+      globalThis.fetch = (async () =>
+        new Response(
+          JSON.stringify({
+            id: "chatcmpl-3",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+              {
+                index: 0,
+                message: {
+                  role: "assistant",
+                  content: "The answer is 4.",
+                  reasoning: { thinking: "2 + 2 = 4", signature: "sig" },
+                },
+                finish_reason: "stop",
+              },
+            ],
+            usage: { prompt_tokens: 5, completion_tokens: 9, total_tokens: 14 },
+          }),
+          { status: 200 },
+        )) as typeof fetch;
+
+      const llm = new ChatHeroku({ thinking: true });
+      const result = await llm.invoke([new HumanMessage("What is 2 + 2?")]);
+
+      assert.deepStrictEqual(result.content, [
+        { type: "reasoning", reasoning: "2 + 2 = 4" },
+        { type: "text", text: "The answer is 4." },
+      ]);
+      assert.strictEqual(result.text, "The answer is 4.");
+      assert.strictEqual(result.additional_kwargs.reasoning, undefined);
+    });
+
+    test("should stream reasoning separately from answer text", async () => {
+      globalThis.fetch = (async () =>
+        sseResponse([
+          streamChunk({ reasoning: { thinking: "Adding " } }),
+          streamChunk({ reasoning: { thinking: "numbers" } }),
+          streamChunk({ content: "4" }),
+        ])) as typeof fetch;
+
+      const llm = new ChatHeroku({ thinking: true });
+      const chunks = [];
+      for await (const chunk of await llm.stream([new HumanMessage("2+2?")])) {
+        chunks.push(chunk);
+      }
+
+      const reasoningChunks = chunks.filter((chunk) =>
+        Array.isArray(chunk.content),
+      );
+      assert.strictEqual(reasoningChunks.length, 2);
+      assert.deepStrictEqual(reasoningChunks[0].content, [
+        { type: "reasoning", reasoning: "Adding ", index: 0 },
+      ]);
+      assert.strictEqual(
+        chunks.find((chunk) => chunk.content === "4")?.additional_kwargs
+          .reasoning,
+        undefined,
+      );
+    });
+
+    test("should raise a stream error for SSE error events", async () => {
+      globalThis.fetch = (async () =>
+        new Response('event: error\ndata: {"message":"overloaded"}\n\n', {
+          status: 200,
+          headers: { "X-Request-Id": "req-sse" },
+        })) as typeof fetch;
+
+      const llm = new ChatHeroku({});
+      await assert.rejects(
+        async () => {
+          for await (const _chunk of await llm.stream([
+            new HumanMessage("Hi"),
+          ])) {
+            // Consume until the error event
+          }
+        },
+        (error: unknown) =>
+          error instanceof HerokuStreamError &&
+          error.requestId === "req-sse" &&
+          error.model === "test-model",
+      );
+    });
+
+    test("should close the connection when a stream is cancelled", async () => {
+      let fetchSignal: AbortSignal | undefined;
+      globalThis.fetch = (async (_url: string, init: RequestInit) => {
+        fetchSignal = init.signal ?? undefined;
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(
+              new TextEncoder().encode(
+                `data: ${JSON.stringify(streamChunk({ content: "Hel" }))}\n\n`,
+              ),
+            );
+          },
+        });
+        return new Response(body, { status: 200 });
+      }) as typeof fetch;
+
+      const controller = new AbortController();
+      const llm = new ChatHeroku({});
+      const stream = await llm.stream([new HumanMessage("Hi")], {
+        signal: controller.signal,
+      });
+
+      await assert.rejects(async () => {
+        for await (const _chunk of stream) {
+          controller.abort();
+        }
+      });
+      // Aborting the fetch signal is what closes the underlying connection
+      assert.strictEqual(fetchSignal?.aborted, true);
+    });
+
+    test("should aggregate streamed reasoning when invoke streams", async () => {
+      globalThis.fetch = (async () =>
+        sseResponse([
+          streamChunk({ reasoning: { thinking: "Adding " } }),
+          streamChunk({ reasoning: { thinking: "numbers" } }),
+          streamChunk({ content: "4" }),
+        ])) as typeof fetch;
+
+      const llm = new ChatHeroku({ thinking: true, streaming: true });
+      const result = await llm.invoke([new HumanMessage("2+2?")]);
+
+      assert.deepStrictEqual(result.content, [
+        { type: "reasoning", reasoning: "Adding numbers" },
+        { type: "text", text: "4" },
+      ]);
+    });
+  });
 });
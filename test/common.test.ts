@@ -5,6 +5,19 @@ import {
   HerokuApiError,
   langchainMessagesToHerokuMessages,
   langchainToolsToHerokuTools,
+  herokuUsageToUsageMetadata,
+  buildHerokuHeaders,
+  postHerokuJson,
+  postJsonWithRetries,
+  parseRetryAfter,
+  parseHerokuSSE,
+  createHerokuApiError,
+  HerokuAuthenticationError,
+  HerokuRateLimitError,
+  HerokuContextLengthError,
+  HerokuInvalidRequestError,
+  HerokuServerError,
+  HerokuTimeoutError,
   DEFAULT_INFERENCE_URL,
 } from "../src/common";
 import {
@@ -109,6 +122,421 @@ describe("Common utilities", () => {
     });
   });
 
+  describe("Typed errors", () => {
+    test("should map statuses and messages to error subclasses", () => {
+      const cases: [number, string, typeof HerokuApiError][] = [
+        [401, "invalid key", HerokuAuthenticationError],
+        [403, "forbidden", HerokuAuthenticationError],
+        [429, "slow down", HerokuRateLimitError],
+        [408, "request timeout", HerokuTimeoutError],
+        [
+          400,
+          "prompt exceeds the maximum context length",
+          HerokuContextLengthError,
+        ],
+        [400, "invalid tool schema", HerokuInvalidRequestError],
+        [503, "unavailable", HerokuServerError],
+      ];
+      for (const [status, message, ErrorClass] of cases) {
+        const error = createHerokuApiError(message, status);
+        assert.ok(error instanceof ErrorClass, `${status} ${message}`);
+        assert.ok(error instanceof HerokuApiError);
+        assert.strictEqual(error.status, status);
+      }
+    });
+
+    test("should attach request id, model and a sanitized request summary", async () => {
+      const fetchImpl = (async () =>
+        new Response(JSON.stringify({ error: { message: "bad key" } }), {
+          status: 401,
+          headers: { "X-Request-Id": "req-abc" },
+        })) as typeof fetch;
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com/v1/chat/completions",
+            "secret-key",
+            {
+              model: "claude-4-sonnet",
+              messages: [{ role: "user", content: "top secret prompt" }],
+              tools: [{ type: "function", function: { name: "lookup" } }],
+              temperature: 0.2,
+            },
+            { fetch: fetchImpl },
+          ),
+        (error: unknown) => {
+          assert.ok(error instanceof HerokuAuthenticationError);
+          assert.strictEqual(error.requestId, "req-abc");
+          assert.strictEqual(error.model, "claude-4-sonnet");
+          assert.deepStrictEqual(error.request, {
+            url: "https://example.com/v1/chat/completions",
+            model: "claude-4-sonnet",
+            messageCount: 1,
+            toolNames: ["lookup"],
+            parameters: ["temperature"],
+          });
+          assert.ok(!JSON.stringify(error.request).includes("top secret"));
+          return true;
+        },
+      );
+    });
+
+    test("should expose Retry-After on rate limit errors", async () => {
+      const fetchImpl = (async () =>
+        new Response("{}", {
+          status: 429,
+          headers: { "Retry-After": "7" },
+        })) as typeof fetch;
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com",
+            "key",
+            {},
+            {
+              fetch: fetchImpl,
+              maxRetries: 0,
+            },
+          ),
+        (error: unknown) =>
+          error instanceof HerokuRateLimitError && error.retryAfterMs === 7000,
+      );
+    });
+
+    test("should raise a timeout error when the request times out", async () => {
+      const fetchImpl = ((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new Error("aborted")),
+          );
+        })) as typeof fetch;
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com",
+            "key",
+            {},
+            {
+              fetch: fetchImpl,
+              maxRetries: 0,
+              timeout: 10,
+            },
+          ),
+        (error: unknown) =>
+          error instanceof HerokuTimeoutError &&
+          /timed out/.test(error.message),
+      );
+    });
+  });
+
+  describe("HTTP layer", () => {
+    test("should merge custom headers while keeping bearer auth", () => {
+      const headers = buildHerokuHeaders("key-123", {
+        "X-Request-Id": "req-1",
+        Authorization: "Bearer spoofed",
+      });
+
+      assert.deepStrictEqual(headers, {
+        "Content-Type": "application/json",
+        "X-Request-Id": "req-1",
+        Authorization: "Bearer key-123",
+      });
+    });
+
+    test("should POST through a custom fetch implementation", async () => {
+      let capturedInit: RequestInit | undefined;
+      const customFetch = (async (_url: string, init: RequestInit) => {
+        capturedInit = init;
+        return new Response("{}", { status: 200 });
+      }) as typeof fetch;
+
+      const response = await postHerokuJson(
+        "https://example.com/v1/test",
+        "key-123",
+        { hello: "world" },
+        { fetch: customFetch, headers: { "X-Tenant": "acme" } },
+      );
+
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual(capturedInit?.method, "POST");
+      assert.strictEqual(capturedInit?.body, '{"hello":"world"}');
+      assert.strictEqual(
+        (capturedInit?.headers as Record<string, string>)["X-Tenant"],
+        "acme",
+      );
+    });
+  });
+
+  describe("postJsonWithRetries", () => {
+    const sequenceFetch = (responses: (() => Response)[]) => {
+      const calls: string[] = [];
+      const fetchImpl = (async (url: string) => {
+        calls.push(url);
+        return responses[Math.min(calls.length, responses.length) - 1]();
+      }) as typeof fetch;
+      return { calls, fetchImpl };
+    };
+
+    test("should retry retryable statuses honoring Retry-After", async () => {
+      const { calls, fetchImpl } = sequenceFetch([
+        () =>
+          new Response("{}", { status: 429, headers: { "Retry-After": "0" } }),
+        () =>
+          new Response("{}", { status: 503, headers: { "Retry-After": "0" } }),
+        () => new Response('{"ok":true}', { status: 200 }),
+      ]);
+      const attempts: { attempt: number; retryDelayMs?: number }[] = [];
+
+      const response = await postJsonWithRetries(
+        "https://example.com/v1/test",
+        "key",
+        {},
+        {
+          fetch: fetchImpl,
+          hooks: {
+            onAttemptEnd: ({ attempt, retryDelayMs }) =>
+              attempts.push({ attempt, retryDelayMs }),
+          },
+        },
+      );
+
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual(calls.length, 3);
+      assert.deepStrictEqual(attempts, [
+        { attempt: 1, retryDelayMs: 0 },
+        { attempt: 2, retryDelayMs: 0 },
+        { attempt: 3, retryDelayMs: undefined },
+      ]);
+    });
+
+    test("should fail fast on non-retryable statuses", async () => {
+      const { calls, fetchImpl } = sequenceFetch([
+        () =>
+          new Response(JSON.stringify({ error: { message: "bad model" } }), {
+            status: 400,
+          }),
+      ]);
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com",
+            "key",
+            {},
+            {
+              fetch: fetchImpl,
+            },
+          ),
+        (error: unknown) =>
+          error instanceof HerokuApiError &&
+          error.status === 400 &&
+          /bad model/.test(error.message),
+      );
+      assert.strictEqual(calls.length, 1);
+    });
+
+    test("should respect custom retryable status codes", async () => {
+      const { calls, fetchImpl } = sequenceFetch([
+        () =>
+          new Response("{}", { status: 409, headers: { "Retry-After": "0" } }),
+        () =>
+          new Response("{}", { status: 503, headers: { "Retry-After": "0" } }),
+      ]);
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com",
+            "key",
+            {},
+            {
+              fetch: fetchImpl,
+              retryableStatusCodes: [409],
+            },
+          ),
+        (error: unknown) =>
+          error instanceof HerokuApiError && error.status === 503,
+      );
+      assert.strictEqual(calls.length, 2);
+    });
+
+    test("should stop retrying when the caller aborts", async () => {
+      const controller = new AbortController();
+      const { calls, fetchImpl } = sequenceFetch([
+        () => {
+          setTimeout(() => controller.abort(new Error("user cancelled")), 10);
+          return new Response("{}", { status: 503 });
+        },
+      ]);
+
+      await assert.rejects(
+        () =>
+          postJsonWithRetries(
+            "https://example.com",
+            "key",
+            {},
+            {
+              fetch: fetchImpl,
+              signal: controller.signal,
+            },
+          ),
+        /user cancelled/,
+      );
+      assert.strictEqual(calls.length, 1);
+    });
+
+    test("should remove its abort listeners once each response body is done", async () => {
+      const controller = new AbortController();
+      let listeners = 0;
+      const { signal } = controller;
+      const add = signal.addEventListener.bind(signal);
+      const remove = signal.removeEventListener.bind(signal);
+      signal.addEventListener = ((...args: Parameters<typeof add>) => {
+        listeners += 1;
+        add(...args);
+      }) as typeof signal.addEventListener;
+      signal.removeEventListener = ((...args: Parameters<typeof remove>) => {
+        listeners -= 1;
+        remove(...args);
+      }) as typeof signal.removeEventListener;
+      const { fetchImpl } = sequenceFetch([
+        () =>
+          new Response("{}", { status: 503, headers: { "Retry-After": "0" } }),
+        () =>
+          new Response("{}", { status: 503, headers: { "Retry-After": "0" } }),
+        () => new Response('{"ok":true}', { status: 200 }),
+      ]);
+
+      const response = await postJsonWithRetries(
+        "https://example.com",
+        "key",
+        {},
+        { fetch: fetchImpl, signal },
+      );
+      assert.strictEqual(listeners, 1);
+      assert.deepStrictEqual(await response.json(), { ok: true });
+
+      assert.strictEqual(listeners, 0);
+    });
+
+    test("should keep cancelling a streaming body after the headers arrive", async () => {
+      const controller = new AbortController();
+      const fetchImpl = (async (_url: string, init: RequestInit) => {
+        const body = new ReadableStream<Uint8Array>({
+          start(streamController) {
+            init.signal?.addEventListener("abort", () =>
+              streamController.error(init.signal?.reason),
+            );
+          },
+        });
+        return new Response(body, { status: 200 });
+      }) as typeof fetch;
+
+      const response = await postHerokuJson(
+        "https://example.com",
+        "key",
+        {},
+        { fetch: fetchImpl, signal: controller.signal },
+      );
+      const reading = response.text();
+      controller.abort(new Error("user cancelled"));
+
+      await assert.rejects(reading, /user cancelled/);
+    });
+
+    test("should parse Retry-After seconds and dates", () => {
+      assert.strictEqual(parseRetryAfter("2"), 2000);
+      assert.strictEqual(parseRetryAfter(null), undefined);
+      assert.strictEqual(parseRetryAfter("not a date"), undefined);
+      const inFuture = new Date(Date.now() + 60_000).toUTCString();
+      const delay = parseRetryAfter(inFuture)!;
+      assert.ok(delay > 50_000 && delay <= 60_000);
+    });
+  });
+
+  describe("parseHerokuSSE", () => {
+    const hangingStream = (onCancel: () => void) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('data: {"n":1}\n\n'));
+        },
+        cancel: onCancel,
+      });
+
+    test("should cancel the stream when the signal is aborted", async () => {
+      let cancelled = false;
+      const controller = new AbortController();
+      const events: string[] = [];
+
+      await assert.rejects(async () => {
+        for await (const event of parseHerokuSSE(
+          hangingStream(() => (cancelled = true)),
+          undefined,
+          undefined,
+          { signal: controller.signal },
+        )) {
+          events.push(event.data);
+          controller.abort();
+        }
+      }, /abort/i);
+      assert.deepStrictEqual(events, ['{"n":1}']);
+      assert.strictEqual(cancelled, true);
+    });
+
+    test("should fail when the stream is idle for too long", async () => {
+      let cancelled = false;
+
+      await assert.rejects(
+        async () => {
+          for await (const _event of parseHerokuSSE(
+            hangingStream(() => (cancelled = true)),
+            undefined,
+            undefined,
+            { idleTimeout: 20 },
+          )) {
+            // Keep reading until the idle timeout fires
+          }
+        },
+        (error: unknown) =>
+          error instanceof HerokuApiError && /idle/.test(error.message),
+      );
+      assert.strictEqual(cancelled, true);
+    });
+  });
+
+  describe("herokuUsageToUsageMetadata", () => {
+    test("should map Heroku usage to LangChain usage metadata", () => {
+      const usage = herokuUsageToUsageMetadata({
+        prompt_tokens: 12,
+        completion_tokens: 30,
+        total_tokens: 42,
+      });
+
+      assert.deepStrictEqual(usage, {
+        input_tokens: 12,
+        output_tokens: 30,
+        total_tokens: 42,
+      });
+    });
+
+    test("should derive total tokens when missing", () => {
+      const usage = herokuUsageToUsageMetadata({
+        prompt_tokens: 5,
+        completion_tokens: 7,
+      });
+
+      assert.strictEqual(usage?.total_tokens, 12);
+    });
+
+    test("should return undefined when usage is absent", () => {
+      assert.strictEqual(herokuUsageToUsageMetadata(undefined), undefined);
+      assert.strictEqual(herokuUsageToUsageMetadata(null), undefined);
+    });
+  });
+
   describe("langchainMessagesToHerokuMessages", () => {
     test("should convert HumanMessage", () => {
       const messages = [new HumanMessage("Hello, world!")];
@@ -321,6 +749,86 @@ describe("Common utilities", () => {
       assert.strictEqual(result[1].role, "user");
       assert.strictEqual(result[2].role, "assistant");
     });
+
+    test("should convert HumanMessage with image_url content parts", () => {
+      const message = new HumanMessage({
+        content: [
+          { type: "text", text: "What is in this image?" },
+          {
+            type: "image_url",
+            image_url: { url: "https://example.com/dyno.png", detail: "low" },
+          },
+        ],
+      });
+      const result = langchainMessagesToHerokuMessages([message]);
+
+      assert.deepStrictEqual(result[0], {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this image?" },
+          {
+            type: "image_url",
+            image_url: { url: "https://example.com/dyno.png", detail: "low" },
+          },
+        ],
+      });
+    });
+
+    test("should convert base64 and URL image blocks to image_url parts", () => {
+      const message = new HumanMessage({
+        content: [
+          {
+            type: "image",
+            source_type: "base64",
+            data: "aGk=",
+            mime_type: "image/png",
+          },
+          { type: "image", mimeType: "image/jpeg", data: "aGV5" },
+          { type: "image", url: "https://example.com/dyno.png" },
+          { type: "image_url", image_url: "https://example.com/plain.png" },
+        ],
+      });
+      const result = langchainMessagesToHerokuMessages([message]);
+
+      assert.deepStrictEqual(result[0].content, [
+        { type: "image_url", image_url: { url: "data:image/png;base64,aGk=" } },
+        {
+          type: "image_url",
+          image_url: { url: "data:image/jpeg;base64,aGV5" },
+        },
+        {
+          type: "image_url",
+          image_url: { url: "https://example.com/dyno.png" },
+        },
+        {
+          type: "image_url",
+          image_url: { url: "https://example.com/plain.png" },
+        },
+      ]);
+    });
+
+    test("should collapse text-only content blocks into a string", () => {
+      const message = new AIMessage({
+        content: [
+          { type: "text", text: "Hello, " },
+          { type: "text", text: "world!" },
+        ],
+      });
+      const result = langchainMessagesToHerokuMessages([message]);
+
+      assert.strictEqual(result[0].content, "Hello, world!");
+    });
+
+    test("should throw for base64 images without a mime type", () => {
+      const message = new HumanMessage({
+        content: [{ type: "image", data: "aGk=" }],
+      });
+
+      assert.throws(
+        () => langchainMessagesToHerokuMessages([message]),
+        /mime type is required/,
+      );
+    });
   });
 
   describe("langchainToolsToHerokuTools", () => {
@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import {
+  HerokuInMemoryEmbeddingsCache,
+  HerokuRedisEmbeddingsCache,
+  herokuEmbeddingsCacheKey,
+  type HerokuRedisClient,
+} from "../src/embeddings-cache.js";
+
+class FakeNodeRedis implements HerokuRedisClient {
+  data = new Map<string, string>();
+  setCalls: unknown[][] = [];
+
+  async mGet(keys: string[]) {
+    return keys.map((key) => this.data.get(key) ?? null);
+  }
+
+  async set(key: string, value: string, ...args: unknown[]) {
+    this.setCalls.push([key, value, ...args]);
+    this.data.set(key, value);
+    return "OK";
+  }
+}
+
+class FakeIORedis implements HerokuRedisClient {
+  data = new Map<string, string>();
+  setCalls: unknown[][] = [];
+
+  async mget(...keys: string[]) {
+    return keys.map((key) => this.data.get(key) ?? null);
+  }
+
+  async set(key: string, value: string, ...args: unknown[]) {
+    this.setCalls.push([key, value, ...args]);
+    this.data.set(key, value);
+    return "OK";
+  }
+}
+
+describe("herokuEmbeddingsCacheKey", () => {
+  it("should combine model, input type, embedding type and a text hash", async () => {
+    const key = await herokuEmbeddingsCacheKey({
+      model: "cohere-embed-multilingual",
+      inputType: "search_document",
+      embeddingType: "float",
+      text: "hello",
+    });
+
+    assert.strictEqual(
+      key,
+      "cohere-embed-multilingual:search_document:float:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+    );
+  });
+
+  it("should give different keys for different input types", async () => {
+    const params = {
+      model: "m",
+      embeddingType: "float",
+      text: "hello",
+    };
+
+    assert.notStrictEqual(
+      await herokuEmbeddingsCacheKey({ ...params, inputType: "search_query" }),
+      await herokuEmbeddingsCacheKey({
+        ...params,
+        inputType: "search_document",
+      }),
+    );
+  });
+});
+
+describe("HerokuInMemoryEmbeddingsCache", () => {
+  it("should return cached vectors and undefined for misses", async () => {
+    const cache = new HerokuInMemoryEmbeddingsCache();
+    await cache.mset([["a", [1, 2]]]);
+
+    assert.deepStrictEqual(await cache.mget(["a", "b"]), [[1, 2], undefined]);
+  });
+
+  it("should evict the least recently used entry", async () => {
+    const cache = new HerokuInMemoryEmbeddingsCache({ maxEntries: 2 });
+    await cache.mset([
+      ["a", [1]],
+      ["b", [2]],
+    ]);
+    await cache.mget(["a"]);
+    await cache.mset([["c", [3]]]);
+
+    assert.strictEqual(cache.size, 2);
+    assert.deepStrictEqual(await cache.mget(["a", "b", "c"]), [
+      [1],
+      undefined,
+      [3],
+    ]);
+  });
+
+  it("should clear all entries", async () => {
+    const cache = new HerokuInMemoryEmbeddingsCache();
+    await cache.mset([["a", [1]]]);
+    cache.clear();
+
+    assert.strictEqual(cache.size, 0);
+  });
+});
+
+describe("HerokuRedisEmbeddingsCache", () => {
+  let originalRedisUrl: string | undefined;
+
+  beforeEach(() => {
+    originalRedisUrl = process.env.REDIS_URL;
+  });
+
+  afterEach(() => {
+    if (originalRedisUrl === undefined) delete process.env.REDIS_URL;
+    else process.env.REDIS_URL = originalRedisUrl;
+  });
+
+  it("should store JSON vectors under prefixed keys with node-redis", async () => {
+    const client = new FakeNodeRedis();
+    const cache = new HerokuRedisEmbeddingsCache({ client, ttlSeconds: 60 });
+
+    await cache.mset([["a", [0.5, 1]]]);
+
+    assert.deepStrictEqual(client.setCalls, [
+      ["heroku-embeddings:a", "[0.5,1]", { EX: 60 }],
+    ]);
+    assert.deepStrictEqual(await cache.mget(["a", "b"]), [[0.5, 1], undefined]);
+  });
+
+  it("should support ioredis clients", async () => {
+    const client = new FakeIORedis();
+    const cache = new HerokuRedisEmbeddingsCache({
+      client,
+      keyPrefix: "emb:",
+      ttlSeconds: 60,
+    });
+
+    await cache.mset([["a", [1]]]);
+
+    assert.deepStrictEqual(client.setCalls, [["emb:a", "[1]", "EX", 60]]);
+    assert.deepStrictEqual(await cache.mget(["a"]), [[1]]);
+  });
+
+  it("should not set an expiry without ttlSeconds", async () => {
+    const client = new FakeNodeRedis();
+    const cache = new HerokuRedisEmbeddingsCache({ client });
+
+    await cache.mset([["a", [1]]]);
+
+    assert.deepStrictEqual(client.setCalls, [["heroku-embeddings:a", "[1]"]]);
+  });
+
+  it("should require REDIS_URL when no client is given", async () => {
+    delete process.env.REDIS_URL;
+    const cache = new HerokuRedisEmbeddingsCache();
+
+    await assert.rejects(cache.mget(["a"]), /Redis URL not found/);
+  });
+});
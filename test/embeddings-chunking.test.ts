@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  chunkTextForEmbeddings,
+  poolChunkEmbeddings,
+  resolveChunkingOptions,
+} from "../src/embeddings-chunking.js";
+
+describe("resolveChunkingOptions", () => {
+  it("should default to 2048-character chunks averaged together", () => {
+    assert.deepStrictEqual(resolveChunkingOptions(), {
+      boundary: "character",
+      chunkSize: 2048,
+      overlap: 0,
+      pooling: "mean",
+    });
+  });
+
+  it("should cap chunkSize at the API limit", () => {
+    assert.strictEqual(
+      resolveChunkingOptions({ chunkSize: 5000 }).chunkSize,
+      2048,
+    );
+  });
+
+  it("should reject an overlap that is not less than chunkSize", () => {
+    assert.throws(
+      () => resolveChunkingOptions({ chunkSize: 100, overlap: 100 }),
+      /chunking.overlap must be an integer from 0 to 99/,
+    );
+    assert.throws(
+      () => resolveChunkingOptions({ chunkSize: 0 }),
+      /chunking.chunkSize must be a positive integer/,
+    );
+  });
+});
+
+describe("chunkTextForEmbeddings", () => {
+  it("should split on characters with overlap", () => {
+    const chunks = chunkTextForEmbeddings(
+      "abcdefghij",
+      resolveChunkingOptions({ chunkSize: 4, overlap: 1 }),
+    );
+
+    assert.deepStrictEqual(chunks, ["abcd", "defg", "ghij"]);
+  });
+
+  it("should keep sentences whole", () => {
+    const text = "One two. Three four five. Six!";
+    const chunks = chunkTextForEmbeddings(
+      text,
+      resolveChunkingOptions({ boundary: "sentence", chunkSize: 20 }),
+    );
+
+    assert.deepStrictEqual(chunks, ["One two. ", "Three four five. ", "Six!"]);
+    assert.strictEqual(chunks.join(""), text);
+  });
+
+  it("should pack several sentences into one chunk", () => {
+    const chunks = chunkTextForEmbeddings(
+      "A b. C d. E f. G h.",
+      resolveChunkingOptions({ boundary: "sentence", chunkSize: 10 }),
+    );
+
+    assert.deepStrictEqual(chunks, ["A b. C d. ", "E f. G h."]);
+  });
+
+  it("should repeat trailing sentences as overlap", () => {
+    const chunks = chunkTextForEmbeddings(
+      "A b. C d. E f. G h.",
+      resolveChunkingOptions({
+        boundary: "sentence",
+        chunkSize: 15,
+        overlap: 5,
+      }),
+    );
+
+    assert.deepStrictEqual(chunks, ["A b. C d. E f. ", "E f. G h."]);
+  });
+
+  it("should split on blank lines for paragraphs", () => {
+    const chunks = chunkTextForEmbeddings(
+      "First paragraph.\n\nSecond paragraph.\n\nThird.",
+      resolveChunkingOptions({ boundary: "paragraph", chunkSize: 20 }),
+    );
+
+    assert.deepStrictEqual(chunks, [
+      "First paragraph.\n\n",
+      "Second paragraph.\n\n",
+      "Third.",
+    ]);
+  });
+
+  it("should split long sentences between words", () => {
+    const chunks = chunkTextForEmbeddings(
+      "alpha beta gamma delta",
+      resolveChunkingOptions({ boundary: "sentence", chunkSize: 12 }),
+    );
+
+    assert.deepStrictEqual(chunks, ["alpha beta ", "gamma delta"]);
+    assert.ok(chunks.every((chunk) => chunk.length <= 12));
+  });
+
+  it("should return only the first chunk for first pooling", () => {
+    const chunks = chunkTextForEmbeddings(
+      "abcdefghij",
+      resolveChunkingOptions({ chunkSize: 4, pooling: "first" }),
+    );
+
+    assert.deepStrictEqual(chunks, ["abcd"]);
+  });
+});
+
+describe("poolChunkEmbeddings", () => {
+  const vectors = [
+    [1, 4],
+    [3, 0],
+  ];
+  const chunks = ["aaa", "a"];
+
+  it("should average chunk embeddings", () => {
+    assert.deepStrictEqual(
+      poolChunkEmbeddings(vectors, chunks, "mean"),
+      [2, 2],
+    );
+  });
+
+  it("should weight chunk embeddings by chunk length", () => {
+    assert.deepStrictEqual(
+      poolChunkEmbeddings(vectors, chunks, "weighted_mean"),
+      [1.5, 3],
+    );
+  });
+
+  it("should max-pool chunk embeddings", () => {
+    assert.deepStrictEqual(poolChunkEmbeddings(vectors, chunks, "max"), [3, 4]);
+  });
+
+  it("should keep the first chunk embedding", () => {
+    assert.deepStrictEqual(
+      poolChunkEmbeddings(vectors, chunks, "first"),
+      [1, 4],
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import { HerokuEmbeddings } from "../src/embeddings.js";
+import { HerokuInMemoryEmbeddingsCache } from "../src/embeddings-cache.js";
 
 describe("HerokuEmbeddings", () => {
   let originalEnv: Record<string, string | undefined>;
@@ -159,6 +160,35 @@ describe("HerokuEmbeddings", () => {
       assert.strictEqual(params.encoding_format, "base64");
     });
 
+    it("should send requests through a custom fetch with default headers", async () => {
+      let capturedHeaders: Record<string, string> | undefined;
+      const customFetch = (async (_url: string, init: RequestInit) => {
+        capturedHeaders = init.headers as Record<string, string>;
+        return new Response(
+          JSON.stringify({
+            object: "list",
+            data: [{ object: "embedding", index: 0, embedding: [0.1, 0.2] }],
+            model: "test-embed-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+
+      const embeddings = new HerokuEmbeddings({
+        fetch: customFetch,
+        defaultHeaders: { "X-Tenant": "acme" },
+      });
+      const vector = await embeddings.embedQuery("hello");
+
+      assert.deepStrictEqual(vector, [0.1, 0.2]);
+      assert.strictEqual(capturedHeaders?.["X-Tenant"], "acme");
+      assert.strictEqual(
+        capturedHeaders?.Authorization,
+        "Bearer test-embed-key",
+      );
+    });
+
     it("should support all constructor parameters being optional", () => {
       // Test that all parameter combinations work
       assert.doesNotThrow(() => {
@@ -173,4 +203,458 @@ describe("HerokuEmbeddings", () => {
       });
     });
   });
+
+  describe("Batching", () => {
+    function echoFetch(
+      requests: string[][],
+      delay?: (batch: number) => number,
+    ) {
+      return (async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        const batch = requests.push(body.input) - 1;
+        await new Promise((resolve) =>
+          setTimeout(resolve, delay?.(batch) ?? 0),
+        );
+        return new Response(
+          JSON.stringify({
+            object: "list",
+            data: body.input
+              .map((text: string, index: number) => ({
+                object: "embedding",
+                index,
+                embedding: [Number(text.split(":")[0]) || 0, text.length],
+              }))
+              .reverse(),
+            model: "test-embed-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+    }
+
+    it("should split more than 96 inputs into batches and keep input order", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        // Later batches finish first
+        fetch: echoFetch(requests, (batch) => (2 - batch) * 5),
+      });
+      const documents = Array.from({ length: 200 }, (_, i) => `${i}:doc`);
+
+      const vectors = await embeddings.embedDocuments(documents);
+
+      assert.deepStrictEqual(
+        requests.map((batch) => batch.length),
+        [96, 96, 8],
+      );
+      assert.strictEqual(vectors.length, 200);
+      assert.deepStrictEqual(
+        vectors.map((vector) => vector[0]),
+        documents.map((_, i) => i),
+      );
+    });
+
+    it("should honor batchSize and bound concurrency", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const requests: string[][] = [];
+      const fetchBatch = echoFetch(requests);
+      const embeddings = new HerokuEmbeddings({
+        batchSize: 10,
+        maxConcurrency: 2,
+        fetch: (async (url: string, init: RequestInit) => {
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          try {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return await fetchBatch(url, init);
+          } finally {
+            inFlight -= 1;
+          }
+        }) as typeof fetch,
+      });
+
+      await embeddings.embedDocuments(Array(45).fill("1:doc"));
+
+      assert.strictEqual(requests.length, 5);
+      assert.strictEqual(maxInFlight, 2);
+    });
+
+    it("should retry a failing batch only in the transport", async () => {
+      let calls = 0;
+      const embeddings = new HerokuEmbeddings({
+        maxRetries: 1,
+        fetch: (async () => {
+          calls += 1;
+          return new Response(JSON.stringify({ error: "unavailable" }), {
+            status: 503,
+            headers: { "Retry-After": "0" },
+          });
+        }) as typeof fetch,
+      });
+
+      await assert.rejects(embeddings.embedDocuments(["1:doc"]));
+      assert.strictEqual(calls, 2);
+    });
+
+    it("should chunk and average oversized inputs by default", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({ fetch: echoFetch(requests) });
+
+      const vectors = await embeddings.embedDocuments([
+        "1:short",
+        "a".repeat(3000),
+      ]);
+
+      assert.deepStrictEqual(
+        requests[0].map((text) => text.length),
+        [7, 2048, 952],
+      );
+      assert.deepStrictEqual(vectors, [
+        [1, 7],
+        [0, 1500],
+      ]);
+    });
+
+    it("should truncate oversized inputs when configured", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: echoFetch(requests),
+        oversizedInputs: "truncate",
+      });
+
+      const vectors = await embeddings.embedDocuments(["a".repeat(3000)]);
+
+      assert.deepStrictEqual(vectors, [[0, 2048]]);
+    });
+
+    it("should reject oversized inputs before any request when configured", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: echoFetch(requests),
+        oversizedInputs: "error",
+      });
+
+      await assert.rejects(
+        embeddings.embedDocuments(["ok", "a".repeat(2049)]),
+        /String at index 1 exceeds maximum length of 2048 characters/,
+      );
+      assert.strictEqual(requests.length, 0);
+    });
+
+    it("should not send a request for an empty input", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({ fetch: echoFetch(requests) });
+
+      assert.deepStrictEqual(await embeddings.embedDocuments([]), []);
+      assert.strictEqual(requests.length, 0);
+    });
+  });
+
+  describe("Typed embeddings", () => {
+    function respondWith(embeddings: (number[] | string)[]) {
+      const requests: any[] = [];
+      const fetchImpl = (async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(init.body as string));
+        return new Response(
+          JSON.stringify({
+            object: "list",
+            data: embeddings.map((embedding, index) => ({
+              object: "embedding",
+              index,
+              embedding,
+            })),
+            model: "test-embed-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+      return { requests, fetchImpl };
+    }
+
+    function toBase64(bytes: ArrayBufferLike): string {
+      return Buffer.from(new Uint8Array(bytes)).toString("base64");
+    }
+
+    it("should decode base64 float embeddings into Float32Array", async () => {
+      const floats = new Float32Array([0.5, -1.25, 3]);
+      const { requests, fetchImpl } = respondWith([toBase64(floats.buffer)]);
+      const embeddings = new HerokuEmbeddings({ fetch: fetchImpl });
+
+      const [vector] = await embeddings.embedDocumentsTyped(["hello"], {
+        encoding_format: "base64",
+      });
+
+      assert.strictEqual(requests[0].encoding_format, "base64");
+      assert.ok(vector instanceof Float32Array);
+      assert.deepStrictEqual(Array.from(vector), [0.5, -1.25, 3]);
+    });
+
+    it("should keep embedDocuments returning plain numbers for base64 responses", async () => {
+      const floats = new Float32Array([0.5, -1.25]);
+      const { fetchImpl } = respondWith([toBase64(floats.buffer)]);
+      const embeddings = new HerokuEmbeddings({
+        fetch: fetchImpl,
+        additionalKwargs: { encoding_format: "base64" },
+      });
+
+      const vectors = await embeddings.embedDocuments(["hello"]);
+
+      assert.ok(Array.isArray(vectors[0]));
+      assert.deepStrictEqual(vectors, [[0.5, -1.25]]);
+    });
+
+    it("should decode quantized base64 embeddings into typed arrays", async () => {
+      const cases = [
+        ["int8", Int8Array, [-128, 0, 127]],
+        ["uint8", Uint8Array, [0, 128, 255]],
+        ["binary", Int8Array, [-86, 15]],
+        ["ubinary", Uint8Array, [170, 15]],
+      ] as const;
+
+      for (const [embeddingType, TypedArray, values] of cases) {
+        const bytes = TypedArray.from(values as readonly number[]);
+        const { fetchImpl } = respondWith([toBase64(bytes.buffer)]);
+        const embeddings = new HerokuEmbeddings({ fetch: fetchImpl });
+
+        const [vector] = await embeddings.embedDocumentsTyped(["hello"], {
+          embedding_type: embeddingType,
+          encoding_format: "base64",
+        });
+
+        assert.ok(vector instanceof TypedArray, embeddingType);
+        assert.deepStrictEqual(Array.from(vector), values, embeddingType);
+      }
+    });
+
+    it("should convert raw number embeddings into typed arrays", async () => {
+      const { fetchImpl } = respondWith([[-3, 4]]);
+      const embeddings = new HerokuEmbeddings({ fetch: fetchImpl });
+
+      const [vector] = await embeddings.embedDocumentsTyped(["hello"], {
+        embedding_type: "int8",
+      });
+
+      assert.ok(vector instanceof Int8Array);
+      assert.deepStrictEqual(Array.from(vector), [-3, 4]);
+    });
+
+    it("should average chunked float embeddings", async () => {
+      const { fetchImpl } = respondWith([
+        [1, 2],
+        [3, 4],
+      ]);
+      const embeddings = new HerokuEmbeddings({ fetch: fetchImpl });
+
+      const [vector] = await embeddings.embedDocumentsTyped(["a".repeat(3000)]);
+
+      assert.ok(vector instanceof Float32Array);
+      assert.deepStrictEqual(Array.from(vector), [2, 3]);
+    });
+
+    it("should reject chunked inputs for quantized embedding types", async () => {
+      const { fetchImpl } = respondWith([
+        [1, 2],
+        [3, 4],
+      ]);
+      const embeddings = new HerokuEmbeddings({ fetch: fetchImpl });
+
+      await assert.rejects(
+        embeddings.embedDocumentsTyped(["a".repeat(3000)], {
+          embedding_type: "int8",
+        }),
+        /cannot be pooled for embedding_type "int8"/,
+      );
+    });
+  });
+
+  describe("Caching", () => {
+    function countingFetch(requests: string[][]) {
+      return (async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        requests.push(body.input);
+        return new Response(
+          JSON.stringify({
+            object: "list",
+            data: body.input.map((text: string, index: number) => ({
+              object: "embedding",
+              index,
+              embedding: [text.length],
+            })),
+            model: "test-embed-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+    }
+
+    it("should only send cache misses and merge results in order", async () => {
+      const requests: string[][] = [];
+      const cache = new HerokuInMemoryEmbeddingsCache();
+      const embeddings = new HerokuEmbeddings({
+        fetch: countingFetch(requests),
+        cache,
+      });
+
+      await embeddings.embedDocuments(["a", "ccc"]);
+      const vectors = await embeddings.embedDocuments([
+        "bb",
+        "a",
+        "ccc",
+        "dddd",
+      ]);
+
+      assert.deepStrictEqual(requests, [
+        ["a", "ccc"],
+        ["bb", "dddd"],
+      ]);
+      assert.deepStrictEqual(vectors, [[2], [1], [3], [4]]);
+      assert.strictEqual(cache.size, 4);
+    });
+
+    it("should not send a request when every input is cached", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: countingFetch(requests),
+        cache: new HerokuInMemoryEmbeddingsCache(),
+      });
+
+      await embeddings.embedDocuments(["a"]);
+      await embeddings.embedDocuments(["a"]);
+
+      assert.strictEqual(requests.length, 1);
+    });
+
+    it("should key the cache by input type and embedding type", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: countingFetch(requests),
+        cache: new HerokuInMemoryEmbeddingsCache(),
+      });
+
+      await embeddings.embedDocuments(["a"]);
+      await embeddings.embedQuery("a");
+      await embeddings.embedDocuments(["a"], { embedding_type: "int8" });
+      await embeddings.embedQuery("a");
+
+      assert.strictEqual(requests.length, 3);
+    });
+
+    it("should fall back to the API when the cache store fails", async () => {
+      const requests: string[][] = [];
+      const warnings: string[] = [];
+      const record = () => {};
+      const embeddings = new HerokuEmbeddings({
+        fetch: countingFetch(requests),
+        cache: {
+          mget: async () => {
+            throw new Error("ECONNREFUSED");
+          },
+          mset: async () => {
+            throw new Error("ECONNREFUSED");
+          },
+        },
+        logger: {
+          debug: record,
+          info: record,
+          warn: (_fields, message) => warnings.push(message),
+          error: record,
+        },
+      });
+
+      const vectors = await embeddings.embedDocuments(["a", "bb"]);
+
+      assert.deepStrictEqual(vectors, [[1], [2]]);
+      assert.deepStrictEqual(requests, [["a", "bb"]]);
+      assert.deepStrictEqual(warnings, [
+        "Embeddings cache lookup failed; embedding every input",
+        "Embeddings cache update failed",
+      ]);
+    });
+  });
+
+  describe("Chunking", () => {
+    function lengthFetch(requests: string[][]) {
+      return (async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        requests.push(body.input);
+        return new Response(
+          JSON.stringify({
+            object: "list",
+            data: body.input.map((text: string, index: number) => ({
+              object: "embedding",
+              index,
+              embedding: [text.length, text.startsWith("First") ? 1 : 0],
+            })),
+            model: "test-embed-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+          { status: 200 },
+        );
+      }) as typeof fetch;
+    }
+
+    const text = "First sentence here. Second one. Third.";
+
+    it("should chunk long queries on sentence boundaries with weighted pooling", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: lengthFetch(requests),
+        chunking: {
+          boundary: "sentence",
+          chunkSize: 25,
+          pooling: "weighted_mean",
+        },
+      });
+
+      const vector = await embeddings.embedQuery(text);
+
+      assert.deepStrictEqual(requests, [
+        ["First sentence here. ", "Second one. Third."],
+      ]);
+      // Lengths 21 and 18, weighted by themselves
+      assert.deepStrictEqual(vector, [(21 * 21 + 18 * 18) / 39, 21 / 39]);
+    });
+
+    it("should chunk documents longer than chunkSize with the same strategy", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: lengthFetch(requests),
+        chunking: { boundary: "sentence", chunkSize: 25, pooling: "max" },
+      });
+
+      const vectors = await embeddings.embedDocuments(["short", text]);
+
+      assert.deepStrictEqual(requests, [
+        ["short", "First sentence here. ", "Second one. Third."],
+      ]);
+      assert.deepStrictEqual(vectors, [
+        [5, 0],
+        [21, 1],
+      ]);
+    });
+
+    it("should only embed the first chunk with first pooling", async () => {
+      const requests: string[][] = [];
+      const embeddings = new HerokuEmbeddings({
+        fetch: lengthFetch(requests),
+        chunking: { boundary: "sentence", chunkSize: 25, pooling: "first" },
+      });
+
+      const vector = await embeddings.embedQuery(text);
+
+      assert.deepStrictEqual(requests, [["First sentence here. "]]);
+      assert.deepStrictEqual(vector, [21, 1]);
+    });
+
+    it("should reject invalid chunking options", () => {
+      assert.throws(
+        () =>
+          new HerokuEmbeddings({ chunking: { chunkSize: 100, overlap: 200 } }),
+        /chunking.overlap must be an integer from 0 to 99/,
+      );
+    });
+  });
 });
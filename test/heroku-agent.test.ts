@@ -2,8 +2,48 @@ import { test, describe, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import { HerokuAgent } from "../src/heroku-agent";
 import { HerokuApiError } from "../src/common";
-import { HumanMessage, AIMessage } from "@langchain/core/messages";
-import type { HerokuAgentToolDefinition } from "../src/types";
+import { listHerokuMcpTools } from "../src/mcp-tools";
+import { HumanMessage, AIMessage, ToolMessage } from "@langchain/core/messages";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { awaitAllCallbacks } from "@langchain/core/callbacks/promises";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  Command,
+  END,
+  MemorySaver,
+  MessagesAnnotation,
+  START,
+  StateGraph,
+  isInterrupted,
+} from "@langchain/langgraph";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import type { HerokuAgentEvent, HerokuAgentToolDefinition } from "../src/types";
+
+/** Chat model that replies with scripted messages, standing in for the agent. */
+class ScriptedChatModel extends BaseChatModel {
+  seen: BaseMessage[][] = [];
+  boundTools: any[] = [];
+
+  constructor(private replies: AIMessage[]) {
+    super({});
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  bindTools(tools: any[]) {
+    this.boundTools = tools;
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.seen.push(messages);
+    const message = this.replies.shift() ?? new AIMessage("Done.");
+    return { generations: [{ message, text: String(message.content) }] };
+  }
+}
 
 describe("HerokuAgent", () => {
   let originalEnv: Record<string, string | undefined>;
@@ -389,4 +429,1080 @@ describe("HerokuAgent", () => {
       assert.ok(agent);
     });
   });
+
+  describe("Usage metadata", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("should sum usage across agent inference requests", async () => {
+      const events = [
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "Checking." },
+              finish_reason: "tool_calls",
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        },
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "All good." },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 },
+        },
+      ];
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const result = await agent.invoke([new HumanMessage("Status?")]);
+
+      assert.strictEqual(result.usage_metadata?.input_tokens, 30);
+      assert.strictEqual(result.usage_metadata?.output_tokens, 9);
+      assert.strictEqual(result.usage_metadata?.total_tokens, 39);
+    });
+  });
+
+  describe("Server tool runs", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("should report server tool executions as tool runs", async () => {
+      const events = [
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: "",
+                tool_calls: [
+                  {
+                    id: "call_1",
+                    type: "function",
+                    function: {
+                      name: "dyno_run_command",
+                      arguments: '{"cmd":"date","api_key":"secret"}',
+                    },
+                  },
+                ],
+              },
+              finish_reason: "tool_calls",
+            },
+          ],
+        },
+        {
+          object: "tool.completion",
+          choices: [
+            {
+              message: {
+                role: "tool",
+                name: "dyno_run_command",
+                tool_call_id: "call_1",
+                content: "Mon Jan 1",
+              },
+            },
+          ],
+        },
+        {
+          object: "tool.error",
+          id: "call_2",
+          name: "web_search",
+          error: "timed out",
+        },
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "It is Monday." },
+              finish_reason: "stop",
+            },
+          ],
+        },
+      ];
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+
+      const calls: any[] = [];
+      const tokens: string[] = [];
+      const handler = BaseCallbackHandler.fromMethods({
+        handleToolStart(tool, input, runId, parentRunId, tags, metadata, name) {
+          calls.push({ event: "start", input, parentRunId, metadata, name });
+        },
+        handleToolEnd(output) {
+          calls.push({ event: "end", output });
+        },
+        handleToolError(error) {
+          calls.push({ event: "error", message: error.message });
+        },
+        handleLLMNewToken(token) {
+          tokens.push(token);
+        },
+      });
+
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        streaming: true,
+        tools: [
+          {
+            type: "heroku_tool",
+            name: "dyno_run_command",
+            runtime_params: {
+              target_app_name: "my-app",
+              tool_params: { cmd: "date", description: "Gets the date." },
+            },
+          },
+        ],
+      });
+      await agent.invoke([new HumanMessage("What day is it?")], {
+        callbacks: [handler],
+      });
+      await awaitAllCallbacks();
+
+      assert.deepStrictEqual(
+        calls.map((c) => c.event),
+        ["start", "end", "start", "error"],
+      );
+      assert.strictEqual(calls[0].name, "dyno_run_command");
+      assert.deepStrictEqual(JSON.parse(calls[0].input), {
+        cmd: "date",
+        api_key: "[REDACTED]",
+      });
+      assert.strictEqual(calls[0].metadata.tool_call_id, "call_1");
+      assert.ok(calls[0].parentRunId);
+      assert.strictEqual(calls[1].output.content, "Mon Jan 1");
+      assert.strictEqual(calls[1].output.tool_call_id, "call_1");
+      assert.match(calls[3].message, /web_search' failed: timed out/);
+      assert.ok(tokens.every((token) => !token.includes("[Tool")));
+    });
+  });
+
+  describe("streamAgentEvents", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    const mockEvents = (events: unknown[]) => {
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+    };
+
+    test("should yield typed events in stream order", async () => {
+      mockEvents([
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: "Checking.",
+                tool_calls: [
+                  {
+                    id: "call_1",
+                    type: "function",
+                    function: { name: "dyno_run_command", arguments: "{}" },
+                  },
+                ],
+              },
+              finish_reason: "tool_calls",
+            },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        },
+        {
+          object: "tool.completion",
+          choices: [
+            {
+              message: {
+                role: "tool",
+                name: "dyno_run_command",
+                tool_call_id: "call_1",
+                content: "ok",
+              },
+            },
+          ],
+        },
+        { object: "tool.error", id: "call_2", name: "search", error: "boom" },
+        {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: " Done." },
+              finish_reason: "stop",
+            },
+          ],
+        },
+      ]);
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const events = [];
+      for await (const event of agent.streamAgentEvents("Status?")) {
+        events.push(event);
+      }
+
+      assert.deepStrictEqual(events, [
+        { event: "message.delta", data: { delta: "Checking." } },
+        {
+          event: "tool.call",
+          data: { id: "call_1", name: "dyno_run_command", input: "{}" },
+        },
+        {
+          event: "usage",
+          data: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        },
+        {
+          event: "tool.completion",
+          data: { id: "call_1", name: "dyno_run_command", output: "ok" },
+        },
+        {
+          event: "tool.error",
+          data: { id: "call_2", name: "search", error: "boom" },
+        },
+        { event: "message.delta", data: { delta: " Done." } },
+        {
+          event: "stream.end",
+          data: {
+            final_message: { role: "assistant", content: "Checking. Done." },
+          },
+        },
+      ]);
+    });
+
+    test("should end the stream on agent errors", async () => {
+      mockEvents([{ object: "agent.error", message: "agent crashed" }]);
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const events = [];
+      for await (const event of agent.streamAgentEvents([
+        new HumanMessage("Status?"),
+      ])) {
+        events.push(event);
+      }
+
+      assert.deepStrictEqual(events, [
+        { event: "agent.error", data: { message: "agent crashed" } },
+      ]);
+      await assert.rejects(
+        agent.invoke([new HumanMessage("Status?")]),
+        /Agent error: agent crashed/,
+      );
+    });
+
+    test("should skip invalid JSON like invoke() does", async () => {
+      const body =
+        "data: {not json\n\n" +
+        `data: ${JSON.stringify({
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "Up." },
+              finish_reason: "stop",
+            },
+          ],
+        })}\n\n` +
+        "data: [DONE]\n\n";
+      globalThis.fetch = (async () =>
+        new Response(body, {
+          status: 200,
+          headers: { "Content-Type": "text/event-stream" },
+        })) as typeof fetch;
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const events = [];
+      for await (const event of agent.streamAgentEvents("Status?")) {
+        events.push(event.event);
+      }
+
+      assert.deepStrictEqual(events, ["message.delta", "stream.end"]);
+      const result = await agent.invoke([new HumanMessage("Status?")]);
+      assert.strictEqual(result.content, "Up.");
+    });
+  });
+
+  describe("Server tool results", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    const assistant = (content: string, finishReason = "tool_calls") => ({
+      object: "chat.completion",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: finishReason,
+        },
+      ],
+    });
+    const toolCompletion = (id: string, name: string, content: string) => ({
+      object: "tool.completion",
+      choices: [{ message: { role: "tool", name, tool_call_id: id, content } }],
+    });
+
+    test("should keep streamed text as received and every tool call batch", async () => {
+      const delta = (content: string) => ({
+        object: "chat.completion.chunk",
+        choices: [{ index: 0, delta: { content } }],
+      });
+      const toolCall = (id: string, name: string) => ({
+        object: "chat.completion",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: "",
+              tool_calls: [
+                { id, type: "function", function: { name, arguments: "{}" } },
+              ],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      });
+      const events = [
+        delta("Hel"),
+        delta("lo"),
+        toolCall("call_1", "ps"),
+        toolCompletion("call_1", "ps", "web.1 up"),
+        toolCall("call_2", "logs"),
+        toolCompletion("call_2", "logs", "no errors"),
+        delta("Al"),
+        delta("l set."),
+      ];
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const result = await agent.invoke([new HumanMessage("Status?")]);
+
+      assert.strictEqual(result.additional_kwargs.transcript[0].text, "Hello");
+      assert.strictEqual(result.content, "All set.");
+      assert.deepStrictEqual(
+        result.tool_calls?.map((tc) => tc.id),
+        ["call_1", "call_2"],
+      );
+      // Per-tool data is only kept in server_tool_results
+      assert.strictEqual(result.additional_kwargs.tool_result, undefined);
+      assert.strictEqual(result.additional_kwargs.tool_call_id, undefined);
+      assert.strictEqual(
+        result.additional_kwargs.server_tool_results.length,
+        2,
+      );
+    });
+
+    test("should keep every tool result and the full transcript", async () => {
+      const events = [
+        assistant("Checking dynos."),
+        toolCompletion("call_1", "ps", "web.1 up"),
+        assistant("Now the logs."),
+        toolCompletion("call_2", "logs", "no errors"),
+        { object: "tool.error", id: "call_3", name: "metrics", error: "boom" },
+        assistant("All healthy.", "stop"),
+      ];
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const result = await agent.invoke([new HumanMessage("Status?")]);
+
+      assert.strictEqual(result.content, "All healthy.");
+      assert.deepStrictEqual(
+        result.additional_kwargs.server_tool_results.map(
+          (r: any) => r.result ?? r.error,
+        ),
+        ["web.1 up", "no errors", "boom"],
+      );
+      assert.deepStrictEqual(
+        result.additional_kwargs.transcript.map((segment: any) =>
+          segment.type === "text" ? segment.text : segment.tool_call_id,
+        ),
+        [
+          "Checking dynos.",
+          "call_1",
+          "Now the logs.",
+          "call_2",
+          "call_3",
+          "All healthy.",
+        ],
+      );
+
+      const history = HerokuAgent.toMessageHistory(result);
+      assert.deepStrictEqual(
+        history.map((message) => message.getType()),
+        ["ai", "tool", "ai", "tool", "tool", "ai"],
+      );
+      assert.strictEqual(history[0].content, "Checking dynos.");
+      assert.strictEqual(
+        (history[0] as AIMessage).tool_calls?.[0].id,
+        "call_1",
+      );
+      assert.strictEqual((history[1] as ToolMessage).content, "web.1 up");
+      assert.deepStrictEqual(
+        (history[2] as AIMessage).tool_calls?.map((tc) => tc.id),
+        ["call_2", "call_3"],
+      );
+      assert.strictEqual((history[4] as ToolMessage).status, "error");
+      assert.strictEqual(history[5].content, "All healthy.");
+    });
+
+    test("should return the message itself when no tools ran", () => {
+      const message = new AIMessage("Hello");
+      assert.deepStrictEqual(HerokuAgent.toMessageHistory(message), [message]);
+    });
+  });
+
+  describe("Sessions", () => {
+    let originalFetch: typeof fetch;
+    let requests: any[];
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+      requests = [];
+      globalThis.fetch = (async (_url: any, init?: RequestInit) => {
+        requests.push(JSON.parse(String(init?.body)));
+        const events = [
+          {
+            object: "chat.completion",
+            session_id: "sess_1",
+            choices: [
+              {
+                index: 0,
+                message: {
+                  role: "assistant",
+                  content: `Reply ${requests.length}`,
+                },
+                finish_reason: "stop",
+              },
+            ],
+          },
+        ];
+        return new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        );
+      }) as typeof fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("should expose the session ID assigned by the agent", async () => {
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const result = await agent.invoke([new HumanMessage("Hi")]);
+
+      assert.strictEqual(result.response_metadata.session_id, "sess_1");
+      assert.strictEqual(result.content, "Reply 1");
+    });
+
+    test("should include the session ID in stream.end", async () => {
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      let end: any;
+      for await (const event of agent.streamAgentEvents("Hi")) {
+        if (event.event === "stream.end") end = event;
+      }
+
+      assert.strictEqual(end.data.session_id, "sess_1");
+    });
+
+    test("should reuse the session ID and send only new messages", async () => {
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const session = agent.session();
+
+      await session.invoke("First question");
+      const reply = await session.invoke("Second question");
+
+      assert.strictEqual(reply.content, "Reply 2");
+      assert.strictEqual(session.sessionId, "sess_1");
+      assert.strictEqual(requests[0].session_id, undefined);
+      assert.strictEqual(requests[1].session_id, "sess_1");
+      assert.deepStrictEqual(
+        requests[1].messages.map((m: any) => m.content),
+        ["Second question"],
+      );
+      assert.deepStrictEqual(
+        session.messages.map((m) => m.content),
+        ["First question", "Reply 1", "Second question", "Reply 2"],
+      );
+    });
+
+    test("should resume a persisted session", async () => {
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const session = agent.session("sess_1");
+
+      for await (const _event of session.streamAgentEvents("Continue")) {
+        // drain
+      }
+
+      assert.strictEqual(requests[0].session_id, "sess_1");
+      assert.strictEqual(requests[0].messages.length, 1);
+      assert.deepStrictEqual(
+        session.messages.map((m) => m.content),
+        ["Continue", "Reply 1"],
+      );
+    });
+
+    test("should resend the conversation until a session is assigned", async () => {
+      globalThis.fetch = (async (_url: any, init?: RequestInit) => {
+        requests.push(JSON.parse(String(init?.body)));
+        const event = {
+          object: "chat.completion",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "OK" },
+              finish_reason: "stop",
+            },
+          ],
+        };
+        return new Response(
+          `data: ${JSON.stringify(event)}\n\ndata: [DONE]\n\n`,
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        );
+      }) as typeof fetch;
+      const agent = new HerokuAgent({ apiKey: "test-api-key" });
+      const session = agent.session();
+
+      await session.invoke("One");
+      await session.invoke("Two");
+
+      assert.strictEqual(session.sessionId, undefined);
+      assert.deepStrictEqual(
+        requests[1].messages.map((m: any) => m.content),
+        ["One", "OK", "Two"],
+      );
+    });
+  });
+
+  describe("Local tools", () => {
+    const tools: HerokuAgentToolDefinition[] = [
+      {
+        type: "heroku_tool",
+        name: "dyno_run_command",
+        runtime_params: {
+          target_app_name: "my-app",
+          tool_params: { cmd: "date", description: "Gets the date." },
+        },
+      },
+      { type: "mcp", name: "weather" },
+    ];
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+      globalThis.fetch = (async () => {
+        throw new Error("fetch should not be called in local tools mode");
+      }) as typeof fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("should give the model the schema of a discovered MCP tool", async () => {
+      const input_schema = {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+      };
+      const discovered = await listHerokuMcpTools({
+        apiKey: "test-api-key",
+        fetch: (async () =>
+          new Response(
+            JSON.stringify([
+              {
+                id: "srv_1",
+                namespace: "mcp-brave",
+                tools: [
+                  {
+                    name: "brave_web_search",
+                    namespaced_name: "mcp-brave/brave_web_search",
+                    description: "Searches the web",
+                    input_schema,
+                  },
+                ],
+              },
+            ]),
+            { status: 200, headers: { "Content-Type": "application/json" } },
+          )) as typeof fetch,
+      });
+      const model = new ScriptedChatModel([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call_1",
+              name: "mcp-brave/brave_web_search",
+              args: { query: "heroku" },
+            },
+          ],
+        }),
+        new AIMessage("Found it."),
+      ]);
+      const agent = new HerokuAgent({
+        tools: discovered,
+        localTools: {
+          model,
+          implementations: {
+            "mcp-brave/brave_web_search": (args) => `results for ${args.query}`,
+          },
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Search heroku")]);
+
+      assert.deepStrictEqual(
+        model.boundTools[0].function.parameters,
+        input_schema,
+      );
+      assert.deepStrictEqual(
+        result.additional_kwargs.server_tool_results.map((r: any) => r.result),
+        ["results for heroku"],
+      );
+    });
+
+    test("should run the tool loop against the local implementations", async () => {
+      const model = new ScriptedChatModel([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call_1", name: "dyno_run_command", args: {} },
+            { id: "call_2", name: "weather", args: { city: "Bogota" } },
+          ],
+        }),
+        new AIMessage("It is Monday and sunny."),
+      ]);
+      const agent = new HerokuAgent({
+        tools,
+        localTools: {
+          model,
+          implementations: {
+            dyno_run_command: () => "Mon Jan 1",
+            weather: async (args) => ({ city: args.city, sky: "sunny" }),
+          },
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Day and weather?")]);
+
+      assert.strictEqual(result.content, "It is Monday and sunny.");
+      assert.deepStrictEqual(
+        result.additional_kwargs.server_tool_results.map((r: any) => r.result),
+        ["Mon Jan 1", '{"city":"Bogota","sky":"sunny"}'],
+      );
+      const secondTurn = model.seen[1];
+      assert.deepStrictEqual(
+        secondTurn.map((message) => message.getType()),
+        ["human", "ai", "tool", "tool"],
+      );
+    });
+
+    test("should report failing and missing implementations as tool errors", async () => {
+      const model = new ScriptedChatModel([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call_1", name: "dyno_run_command", args: {} },
+            { id: "call_2", name: "weather", args: {} },
+          ],
+        }),
+      ]);
+      const agent = new HerokuAgent({
+        tools,
+        localTools: {
+          model,
+          implementations: {
+            dyno_run_command: () => {
+              throw new Error("dyno crashed");
+            },
+          },
+        },
+      });
+
+      const events = [];
+      for await (const event of agent.streamAgentEvents("Check")) {
+        events.push(event);
+      }
+
+      assert.deepStrictEqual(
+        events
+          .filter((event) => event.event === "tool.error")
+          .map((event) => event.data.error),
+        ["dyno crashed", 'No local implementation for tool "weather"'],
+      );
+      assert.strictEqual(events.at(-1)?.event, "stream.end");
+    });
+
+    test("should keep the text of content block replies", async () => {
+      const agent = new HerokuAgent({
+        tools,
+        localTools: {
+          model: new ScriptedChatModel([
+            new AIMessage({
+              content: [
+                { type: "text", text: "Checking the date. " },
+                { type: "text", text: "One moment." },
+              ],
+              tool_calls: [
+                { id: "call_1", name: "dyno_run_command", args: {} },
+              ],
+            }),
+            new AIMessage({
+              content: [{ type: "text", text: "It is Monday." }],
+            }),
+          ]),
+          implementations: { dyno_run_command: () => "Mon Jan 1" },
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Day?")]);
+
+      assert.strictEqual(result.content, "It is Monday.");
+      assert.strictEqual(
+        result.additional_kwargs.transcript[0].text,
+        "Checking the date. One moment.",
+      );
+    });
+
+    test("should fail when the loop does not finish", async () => {
+      const loop = () =>
+        new AIMessage({
+          content: "",
+          tool_calls: [{ name: "dyno_run_command", args: {} }],
+        });
+      const agent = new HerokuAgent({
+        tools,
+        localTools: {
+          model: new ScriptedChatModel([loop(), loop(), loop()]),
+          implementations: { dyno_run_command: () => "ok" },
+          maxIterations: 2,
+        },
+      });
+
+      await assert.rejects(
+        agent.invoke([new HumanMessage("Loop")]),
+        /did not finish within 2 iterations/,
+      );
+    });
+  });
+
+  describe("Tool approval", () => {
+    const tools: HerokuAgentToolDefinition[] = [
+      {
+        type: "heroku_tool",
+        name: "dyno_run_command",
+        runtime_params: {
+          target_app_name: "my-app",
+          tool_params: { cmd: "restart", description: "Restarts dynos." },
+        },
+      },
+    ];
+    const events = [
+      {
+        object: "chat.completion",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: "Restarting.",
+              tool_calls: [
+                {
+                  id: "call_1",
+                  type: "function",
+                  function: {
+                    name: "dyno_run_command",
+                    arguments: '{"cmd":"restart"}',
+                  },
+                },
+              ],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+      {
+        object: "tool.completion",
+        choices: [
+          {
+            message: {
+              role: "tool",
+              name: "dyno_run_command",
+              tool_call_id: "call_1",
+              content: "restarted",
+            },
+          },
+        ],
+      },
+      {
+        object: "chat.completion",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Dynos restarted." },
+            finish_reason: "stop",
+          },
+        ],
+      },
+    ];
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+      globalThis.fetch = (async () =>
+        new Response(
+          events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        )) as typeof fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("should continue when a gated tool call is approved", async () => {
+      const requests: any[] = [];
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: {
+          tools: ["dyno_run_command"],
+          interrupt: (request) => {
+            requests.push(request);
+            return true;
+          },
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Restart web")]);
+
+      assert.strictEqual(result.content, "Dynos restarted.");
+      assert.deepStrictEqual(requests, [
+        {
+          type: "heroku_tool_approval",
+          tool_name: "dyno_run_command",
+          tool_type: "heroku_tool",
+          args: {
+            target_app_name: "my-app",
+            cmd: "restart",
+            description: "Restarts dynos.",
+          },
+        },
+      ]);
+    });
+
+    test("should ask for approval before the request is sent", async () => {
+      let sentBeforeDecision = false;
+      const fetchCalls: string[] = [];
+      const mockedFetch = globalThis.fetch;
+      globalThis.fetch = (async (...args: Parameters<typeof fetch>) => {
+        fetchCalls.push(String(args[0]));
+        return mockedFetch(...args);
+      }) as typeof fetch;
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: {
+          tools: ["dyno_run_command"],
+          interrupt: () => {
+            sentBeforeDecision = fetchCalls.length > 0;
+            return true;
+          },
+        },
+      });
+
+      await agent.invoke([new HumanMessage("Restart web")]);
+
+      assert.strictEqual(sentBeforeDecision, false);
+      assert.strictEqual(fetchCalls.length, 1);
+    });
+
+    test("should leave a rejected tool out of the request", async () => {
+      let body: any;
+      globalThis.fetch = (async (_url: any, init: any) => {
+        body = JSON.parse(init.body);
+        return new Response(
+          `data: ${JSON.stringify(events[2])}\n\ndata: [DONE]\n\n`,
+          { status: 200, headers: { "Content-Type": "text/event-stream" } },
+        );
+      }) as typeof fetch;
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: {
+          tools: (request) => request.tool_type === "heroku_tool",
+          interrupt: () => ({
+            approved: false,
+            reason: "not during business hours",
+          }),
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Restart web")]);
+
+      assert.deepStrictEqual(body.tools, []);
+      assert.strictEqual(result.content, "Dynos restarted.");
+      assert.deepStrictEqual(result.additional_kwargs.server_tool_results, [
+        {
+          tool_call_id: undefined,
+          tool_name: "dyno_run_command",
+          args: {
+            target_app_name: "my-app",
+            cmd: "restart",
+            description: "Restarts dynos.",
+          },
+          error:
+            "Tool 'dyno_run_command' was rejected: not during business hours",
+        },
+      ]);
+      assert.strictEqual(result.tool_calls?.length ?? 0, 0);
+      assert.deepStrictEqual(
+        HerokuAgent.toMessageHistory(result).map((message) => message.content),
+        ["Dynos restarted."],
+      );
+    });
+
+    test("should not ask about tools outside the policy", async () => {
+      let asked = false;
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: {
+          tools: ["postgres_run_query"],
+          interrupt: () => {
+            asked = true;
+            return false;
+          },
+        },
+      });
+
+      const result = await agent.invoke([new HumanMessage("Restart web")]);
+
+      assert.strictEqual(asked, false);
+      assert.strictEqual(result.content, "Dynos restarted.");
+    });
+
+    test("should report a rejection as the first streamAgentEvents event", async () => {
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: { tools: ["dyno_run_command"], interrupt: () => false },
+      });
+
+      const seen: HerokuAgentEvent[] = [];
+      for await (const event of agent.streamAgentEvents("Restart web")) {
+        seen.push(event);
+      }
+
+      assert.deepStrictEqual(seen[0], {
+        event: "tool.error",
+        data: {
+          id: undefined,
+          name: "dyno_run_command",
+          error: "Tool 'dyno_run_command' was rejected",
+        },
+      });
+      assert.strictEqual(seen.at(-1)?.event, "stream.end");
+    });
+
+    test("should pause a LangGraph run with interrupt() until resumed", async () => {
+      const agent = new HerokuAgent({
+        apiKey: "test-api-key",
+        tools,
+        approvalPolicy: { tools: ["dyno_run_command"] },
+      });
+      const graph = new StateGraph(MessagesAnnotation)
+        .addNode("agent", async (state) => ({
+          messages: [await agent.invoke(state.messages)],
+        }))
+        .addEdge(START, "agent")
+        .addEdge("agent", END)
+        .compile({ checkpointer: new MemorySaver() });
+      const config = { configurable: { thread_id: "approval" } };
+
+      let requestsSent = 0;
+      const mockedFetch = globalThis.fetch;
+      globalThis.fetch = (async (...args: Parameters<typeof fetch>) => {
+        requestsSent++;
+        return mockedFetch(...args);
+      }) as typeof fetch;
+
+      const paused = await graph.invoke(
+        { messages: [new HumanMessage("Restart web")] },
+        config,
+      );
+      assert.ok(isInterrupted(paused));
+      assert.strictEqual(requestsSent, 0);
+      assert.strictEqual(
+        (paused.__interrupt__[0].value as any).tool_name,
+        "dyno_run_command",
+      );
+
+      const resumed = await graph.invoke(new Command({ resume: true }), config);
+      assert.strictEqual(resumed.messages.at(-1)?.content, "Dynos restarted.");
+      assert.strictEqual(requestsSent, 1);
+    });
+  });
 });
@@ -0,0 +1,143 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import {
+  createHerokuCodeExecTool,
+  createHerokuDynoRunCommandTool,
+  createHerokuPostgresRunQueryTool,
+  validateHerokuToolDefinition,
+} from "../src/heroku-tools";
+import { HerokuAgent } from "../src/heroku-agent";
+
+describe("Heroku tools", () => {
+  describe("Factories", () => {
+    test("should build a dyno_run_command tool", () => {
+      const tool = createHerokuDynoRunCommandTool({
+        targetAppName: "my-app",
+        command: "uname -a",
+        commandDescription: "Gets the kernel version.",
+        dynoSize: "standard-1x",
+        ttlSeconds: 60,
+      });
+
+      assert.strictEqual(tool.type, "heroku_tool");
+      assert.strictEqual(tool.name, "dyno_run_command");
+      assert.strictEqual(tool.runtime_params?.target_app_name, "my-app");
+      assert.strictEqual(tool.runtime_params?.dyno_size, "standard-1x");
+      assert.strictEqual(tool.runtime_params?.ttl_seconds, 60);
+      assert.deepStrictEqual(tool.runtime_params?.tool_params, {
+        cmd: "uname -a",
+        description: "Gets the kernel version.",
+        parameters: { type: "object", properties: {} },
+      });
+    });
+
+    test("should build Postgres and code execution tools", () => {
+      const query = createHerokuPostgresRunQueryTool({
+        targetAppName: "my-app",
+        dbAttachment: "DATABASE",
+      });
+      const code = createHerokuCodeExecTool("python", {
+        targetAppName: "my-app",
+        maxCalls: 3,
+      });
+
+      assert.deepStrictEqual(query.runtime_params?.tool_params, {
+        db_attachment: "DATABASE",
+      });
+      assert.strictEqual(code.name, "code_exec_python");
+      assert.strictEqual(code.runtime_params?.max_calls, 3);
+    });
+
+    test("should reject invalid options", () => {
+      assert.throws(
+        () =>
+          createHerokuDynoRunCommandTool({
+            targetAppName: "",
+            command: "date",
+            commandDescription: "Gets the date.",
+            ttlSeconds: -5,
+          }),
+        (error: Error) =>
+          error.message.includes("runtime_params.target_app_name") &&
+          error.message.includes("runtime_params.ttl_seconds"),
+      );
+    });
+  });
+
+  describe("validateHerokuToolDefinition", () => {
+    test("should require runtime_params for heroku_tool", () => {
+      assert.throws(
+        () =>
+          validateHerokuToolDefinition({
+            type: "heroku_tool",
+            name: "html_to_markdown",
+          }),
+        /runtime_params is required/,
+      );
+    });
+
+    test("should reject an unknown dyno size", () => {
+      assert.throws(
+        () =>
+          validateHerokuToolDefinition({
+            type: "heroku_tool",
+            name: "pdf_to_markdown",
+            runtime_params: { target_app_name: "my-app", dyno_size: "huge" },
+          }),
+        /runtime_params\.dyno_size must be one of/,
+      );
+    });
+
+    test("should accept dyno sizes in any case", () => {
+      assert.doesNotThrow(() =>
+        validateHerokuToolDefinition({
+          type: "heroku_tool",
+          name: "pdf_to_markdown",
+          runtime_params: {
+            target_app_name: "my-app",
+            dyno_size: "Performance-L",
+          },
+        }),
+      );
+    });
+
+    test("should check the params of known tools", () => {
+      assert.throws(
+        () =>
+          validateHerokuToolDefinition({
+            type: "heroku_tool",
+            name: "dyno_run_command",
+            runtime_params: { target_app_name: "my-app" },
+          }),
+        /runtime_params\.tool_params\.cmd/,
+      );
+    });
+
+    test("should not validate MCP tools", () => {
+      assert.doesNotThrow(() =>
+        validateHerokuToolDefinition({ type: "mcp", name: "mcp-brave/search" }),
+      );
+    });
+  });
+
+  describe("HerokuAgent", () => {
+    test("should reject invalid tools in bindTools", () => {
+      const agent = new HerokuAgent({
+        model: "test-model",
+        apiKey: "test-api-key",
+      });
+
+      assert.throws(
+        () =>
+          agent.bindTools([
+            {
+              type: "heroku_tool",
+              name: "postgres_get_schema",
+              runtime_params: { target_app_name: "my-app" },
+            },
+          ]),
+        /Invalid heroku_tool "postgres_get_schema"/,
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { HerokuImageGeneration } from "../src/image-generation.js";
+import { HerokuApiError } from "../src/common.js";
+
+describe("HerokuImageGeneration", () => {
+  let originalEnv: Record<string, string | undefined>;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    // Backup environment variables
+    originalEnv = {
+      DIFFUSION_MODEL_ID: process.env.DIFFUSION_MODEL_ID,
+      DIFFUSION_KEY: process.env.DIFFUSION_KEY,
+      DIFFUSION_URL: process.env.DIFFUSION_URL,
+    };
+    originalFetch = globalThis.fetch;
+
+    // Set test environment variables
+    process.env.DIFFUSION_MODEL_ID = "test-diffusion-model";
+    process.env.DIFFUSION_KEY = "test-diffusion-key";
+    process.env.DIFFUSION_URL = "https://test-diffusion.url";
+  });
+
+  afterEach(() => {
+    // Restore original environment variables
+    process.env.DIFFUSION_MODEL_ID = originalEnv.DIFFUSION_MODEL_ID;
+    process.env.DIFFUSION_KEY = originalEnv.DIFFUSION_KEY;
+    process.env.DIFFUSION_URL = originalEnv.DIFFUSION_URL;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should throw error when no model is provided", () => {
+    delete process.env.DIFFUSION_MODEL_ID;
+    assert.throws(
+      () => new HerokuImageGeneration(),
+      /Heroku image generation model ID not found/,
+    );
+  });
+
+  it("should build params from prompt, defaults and call options", () => {
+    const images = new HerokuImageGeneration({
+      size: "512x512",
+      steps: 20,
+      additionalKwargs: { output_format: "png" },
+    });
+
+    assert.deepStrictEqual(
+      images.invocationParams("A dyno", { seed: 7, negativePrompt: "blur" }),
+      {
+        output_format: "png",
+        model: "test-diffusion-model",
+        prompt: "A dyno",
+        negative_prompt: "blur",
+        size: "512x512",
+        seed: 7,
+        steps: 20,
+        response_format: "b64_json",
+      },
+    );
+  });
+
+  it("should let options in the input override call options", () => {
+    const images = new HerokuImageGeneration();
+    const params = images.invocationParams(
+      { prompt: "A dyno", size: "1024x1024", responseFormat: "url" },
+      { size: "256x256" },
+    );
+
+    assert.strictEqual(params.size, "1024x1024");
+    assert.strictEqual(params.response_format, "url");
+  });
+
+  it("should POST to the images endpoint and return the response", async () => {
+    let capturedUrl: string | undefined;
+    let capturedBody: any;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      capturedUrl = url;
+      capturedBody = JSON.parse(init.body as string);
+      return new Response(
+        JSON.stringify({ created: 1, data: [{ b64_json: "aGVsbG8=" }] }),
+        { status: 200 },
+      );
+    }) as typeof fetch;
+
+    const images = new HerokuImageGeneration();
+    const result = await images.invoke("A dyno", { seed: 42, steps: 30 });
+
+    assert.strictEqual(
+      capturedUrl,
+      "https://test-diffusion.url/v1/images/generations",
+    );
+    assert.strictEqual(capturedBody.prompt, "A dyno");
+    assert.strictEqual(capturedBody.seed, 42);
+    assert.strictEqual(capturedBody.steps, 30);
+    assert.strictEqual(capturedBody.callbacks, undefined);
+    assert.strictEqual(result.data[0].b64_json, "aGVsbG8=");
+  });
+
+  it("should cancel the request when the signal aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    globalThis.fetch = ((_url: string, init: RequestInit) => {
+      fetchSignal = init.signal ?? undefined;
+      return new Promise((_resolve, reject) => {
+        fetchSignal?.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError")),
+        );
+      });
+    }) as typeof fetch;
+    const controller = new AbortController();
+
+    const images = new HerokuImageGeneration();
+    const pending = images.invoke("A dyno", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await assert.rejects(pending);
+    // Aborting the fetch signal is what closes the underlying connection
+    assert.strictEqual(fetchSignal?.aborted, true);
+  });
+
+  it("should surface API failures as HerokuApiError", async () => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ message: "invalid size" }), {
+        status: 400,
+        statusText: "Bad Request",
+      })) as typeof fetch;
+
+    const images = new HerokuImageGeneration({ maxRetries: 0 });
+    await assert.rejects(
+      () => images.invoke("A dyno", { size: "1x1" }),
+      (error: unknown) =>
+        error instanceof HerokuApiError &&
+        error.status === 400 &&
+        /invalid size/.test(error.message),
+    );
+  });
+});
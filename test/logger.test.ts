@@ -0,0 +1,161 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { createHerokuLogger, resolveHerokuLogLevel } from "../src/logger.js";
+import { langchainMessagesToHerokuMessages } from "../src/common.js";
+import { ChatHeroku } from "../src/chat.js";
+import { HerokuEmbeddings } from "../src/embeddings.js";
+import type { HerokuLogFields, HerokuLogger } from "../src/types.js";
+
+type LogLine = { level: string; fields: HerokuLogFields; message: string };
+
+function recordingLogger(lines: LogLine[]): HerokuLogger {
+  const record =
+    (level: string) => (fields: HerokuLogFields, message: string) =>
+      lines.push({ level, fields, message });
+  return {
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error"),
+  };
+}
+
+describe("createHerokuLogger", () => {
+  let originalEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    originalEnv = {
+      HEROKU_LANGCHAIN_LOG_LEVEL: process.env.HEROKU_LANGCHAIN_LOG_LEVEL,
+      DEBUG_CHAT_HEROKU: process.env.DEBUG_CHAT_HEROKU,
+      DEBUG_TOOLS: process.env.DEBUG_TOOLS,
+      INFERENCE_MODEL_ID: process.env.INFERENCE_MODEL_ID,
+    };
+    delete process.env.HEROKU_LANGCHAIN_LOG_LEVEL;
+    delete process.env.DEBUG_CHAT_HEROKU;
+    delete process.env.DEBUG_TOOLS;
+    process.env.INFERENCE_MODEL_ID = "test-model";
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it("should resolve the level from the environment", () => {
+    assert.strictEqual(resolveHerokuLogLevel(), "warn");
+    process.env.DEBUG_TOOLS = "1";
+    assert.strictEqual(resolveHerokuLogLevel(), "debug");
+    process.env.HEROKU_LANGCHAIN_LOG_LEVEL = "error";
+    assert.strictEqual(resolveHerokuLogLevel(), "error");
+    assert.strictEqual(resolveHerokuLogLevel("info"), "info");
+  });
+
+  it("should filter by level and add the namespace", () => {
+    const lines: LogLine[] = [];
+    const logger = createHerokuLogger("ChatHeroku", {
+      logger: recordingLogger(lines),
+      logLevel: "info",
+    });
+    logger.debug({}, "hidden");
+    logger.info({ a: 1 }, "shown");
+    assert.deepStrictEqual(lines, [
+      {
+        level: "info",
+        fields: { namespace: "ChatHeroku", a: 1 },
+        message: "shown",
+      },
+    ]);
+  });
+
+  it("should bind the namespace through child when available", () => {
+    const lines: LogLine[] = [];
+    let bindings: HerokuLogFields | undefined;
+    const base: HerokuLogger = {
+      ...recordingLogger(lines),
+      child: (childBindings) => {
+        bindings = childBindings;
+        return recordingLogger(lines);
+      },
+    };
+    createHerokuLogger("HerokuAgent", { logger: base }).warn({}, "careful");
+    assert.deepStrictEqual(bindings, { namespace: "HerokuAgent" });
+    assert.deepStrictEqual(lines[0].fields, {});
+  });
+
+  it("should redact messages and fields", () => {
+    const lines: LogLine[] = [];
+    const logger = createHerokuLogger("ChatHeroku", {
+      logger: recordingLogger(lines),
+    });
+    logger.error(
+      { config: { apiKey: "inf-abcdef123456" } },
+      "failed with Bearer abc123",
+    );
+    assert.strictEqual(lines[0].message, "failed with Bearer [REDACTED]");
+    assert.deepStrictEqual(lines[0].fields.config, { apiKey: "[REDACTED]" });
+  });
+
+  it("should route unknown message types to the given logger", () => {
+    const lines: LogLine[] = [];
+    const message = {
+      getType: () => "mystery",
+      content: "hello",
+    } as any;
+    const result = langchainMessagesToHerokuMessages(
+      [message],
+      createHerokuLogger("test", { logger: recordingLogger(lines) }),
+    );
+    assert.strictEqual(result[0].role, "user");
+    assert.strictEqual(lines[0].level, "warn");
+    assert.strictEqual(lines[0].fields.messageType, "mystery");
+  });
+
+  it("should log ChatHeroku tool binding at debug level", () => {
+    const lines: LogLine[] = [];
+    const model = new ChatHeroku({
+      logger: recordingLogger(lines),
+      logLevel: "debug",
+    });
+    model.bindTools([
+      {
+        type: "function",
+        function: { name: "lookup", description: "", parameters: {} },
+      },
+    ]);
+    const line = lines.find((l) => l.message === "bindTools received");
+    assert.ok(line);
+    assert.strictEqual(line.fields.namespace, "ChatHeroku");
+    assert.deepStrictEqual(line.fields.tools, ["lookup"]);
+  });
+  it("should log HerokuEmbeddings requests under its namespace", async () => {
+    const lines: LogLine[] = [];
+    const embeddings = new HerokuEmbeddings({
+      model: "test-embedding-model",
+      apiKey: "test-key",
+      apiUrl: "https://example.com",
+      logger: recordingLogger(lines),
+      logLevel: "debug",
+      fetch: (async () =>
+        new Response(
+          JSON.stringify({
+            object: "list",
+            data: [{ object: "embedding", index: 0, embedding: [1] }],
+            model: "test-embedding-model",
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+        )) as typeof fetch,
+    });
+
+    await embeddings.embedQuery("hello");
+
+    const line = lines.find((l) => l.message === "Embeddings request");
+    assert.ok(line);
+    assert.strictEqual(line.fields.namespace, "HerokuEmbeddings");
+    assert.strictEqual(line.fields.inputs, 1);
+  });
+});
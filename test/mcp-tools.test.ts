@@ -0,0 +1,172 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { listHerokuMcpServers, listHerokuMcpTools } from "../src/mcp-tools";
+import { HerokuAuthenticationError } from "../src/common";
+import { HerokuAgent } from "../src/heroku-agent";
+
+const servers = [
+  {
+    id: "srv_1",
+    process_type: "mcp-brave",
+    namespace: "mcp-brave",
+    server_status: "registered",
+    tools: [
+      {
+        name: "brave_web_search",
+        namespaced_name: "mcp-brave/brave_web_search",
+        description: "Searches the web",
+        input_schema: {
+          type: "object",
+          properties: { query: { type: "string" } },
+          required: ["query"],
+        },
+      },
+      {
+        name: "brave_local_search",
+        namespaced_name: "mcp-brave/brave_local_search",
+        description: "Searches local businesses",
+      },
+    ],
+  },
+  {
+    id: "srv_2",
+    process_type: "mcp-code",
+    namespace: "mcp-code",
+    tools: [{ name: "run", namespaced_name: "mcp-code/run" }],
+  },
+];
+
+describe("MCP tool discovery", () => {
+  let originalFetch: typeof fetch;
+  let requests: { url: string; init?: RequestInit }[];
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    requests = [];
+    globalThis.fetch = (async (url: any, init?: RequestInit) => {
+      requests.push({ url: String(url), init });
+      return new Response(JSON.stringify(servers), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should list the registered servers", async () => {
+    const result = await listHerokuMcpServers({
+      apiKey: "test-key",
+      apiUrl: "https://test-api.url",
+      defaultHeaders: { "X-Tenant": "acme" },
+    });
+
+    assert.strictEqual(result.length, 2);
+    assert.strictEqual(requests[0].url, "https://test-api.url/v1/mcp/servers");
+    assert.strictEqual(requests[0].init?.method, "GET");
+    const headers = requests[0].init?.headers as Record<string, string>;
+    assert.strictEqual(headers.Authorization, "Bearer test-key");
+    assert.strictEqual(headers["X-Tenant"], "acme");
+  });
+
+  test("should return mcp tool definitions with schemas", async () => {
+    const tools = await listHerokuMcpTools({ apiKey: "test-key" });
+
+    assert.deepStrictEqual(
+      tools.map((tool) => tool.name),
+      [
+        "mcp-brave/brave_web_search",
+        "mcp-brave/brave_local_search",
+        "mcp-code/run",
+      ],
+    );
+    assert.deepStrictEqual(tools[0], {
+      type: "mcp",
+      name: "mcp-brave/brave_web_search",
+      description: "Searches the web",
+      input_schema: servers[0].tools[0].input_schema,
+    });
+  });
+
+  test("should filter by server and tool globs", async () => {
+    const tools = await listHerokuMcpTools({
+      apiKey: "test-key",
+      include: ["mcp-brave/*", "mcp-code/**"],
+      exclude: "*/brave_local_*",
+    });
+
+    assert.deepStrictEqual(
+      tools.map((tool) => tool.name),
+      ["mcp-brave/brave_web_search", "mcp-code/run"],
+    );
+  });
+
+  test("should throw typed errors for failed requests", async () => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ message: "Invalid key" }), {
+        status: 401,
+      })) as typeof fetch;
+
+    await assert.rejects(
+      listHerokuMcpTools({ apiKey: "bad-key" }),
+      HerokuAuthenticationError,
+    );
+  });
+
+  test("should retry discovery through the shared transport", async () => {
+    const statuses = [503, 200];
+    const attempts: number[] = [];
+    const result = await listHerokuMcpServers({
+      apiKey: "test-key",
+      fetch: (async (_url: any, init?: RequestInit) => {
+        requests.push({ url: String(_url), init });
+        const status = statuses.shift()!;
+        return new Response(status === 200 ? JSON.stringify(servers) : "{}", {
+          status,
+          headers: { "Retry-After": "0" },
+        });
+      }) as typeof fetch,
+      transportHooks: {
+        onAttemptEnd: ({ attempt }) => attempts.push(attempt),
+      },
+    });
+
+    assert.strictEqual(result.length, 2);
+    assert.deepStrictEqual(attempts, [1, 2]);
+    assert.strictEqual(requests[1].init?.method, "GET");
+    assert.strictEqual(requests[1].init?.body, undefined);
+    const headers = requests[1].init?.headers as Record<string, string>;
+    assert.strictEqual(headers["Content-Type"], undefined);
+  });
+
+  test("should bind discovered tools without sending their schemas", async () => {
+    const tools = await listHerokuMcpTools({
+      apiKey: "test-key",
+      include: "mcp-brave/brave_web_search",
+    });
+    let body: any;
+    globalThis.fetch = (async (_url: any, init?: RequestInit) => {
+      body = JSON.parse(String(init?.body));
+      return new Response("data: [DONE]\n\n", {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }) as typeof fetch;
+
+    const agent = new HerokuAgent({
+      model: "test-model",
+      apiKey: "test-key",
+    }).bindTools(tools);
+    await agent.invoke("Search for Heroku news");
+
+    assert.deepStrictEqual(body.tools, [
+      {
+        type: "mcp",
+        name: "mcp-brave/brave_web_search",
+        description: "Searches the web",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { Document } from "@langchain/core/documents";
+import { HerokuRerank } from "../src/rerank.js";
+import { HerokuApiError } from "../src/common.js";
+
+describe("HerokuRerank", () => {
+  let originalEnv: Record<string, string | undefined>;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    // Backup environment variables
+    originalEnv = {
+      RERANK_MODEL_ID: process.env.RERANK_MODEL_ID,
+      RERANK_KEY: process.env.RERANK_KEY,
+      RERANK_URL: process.env.RERANK_URL,
+    };
+    originalFetch = globalThis.fetch;
+
+    // Set test environment variables
+    process.env.RERANK_MODEL_ID = "test-rerank-model";
+    process.env.RERANK_KEY = "test-rerank-key";
+    process.env.RERANK_URL = "https://test-rerank.url";
+  });
+
+  afterEach(() => {
+    // Restore original environment variables
+    process.env.RERANK_MODEL_ID = originalEnv.RERANK_MODEL_ID;
+    process.env.RERANK_KEY = originalEnv.RERANK_KEY;
+    process.env.RERANK_URL = originalEnv.RERANK_URL;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should throw error when no model is provided", () => {
+    delete process.env.RERANK_MODEL_ID;
+    assert.throws(() => new HerokuRerank(), /Heroku rerank model ID not found/);
+  });
+
+  it("should have correct lc_name", () => {
+    const reranker = new HerokuRerank();
+    assert.strictEqual(reranker.lc_name, "HerokuRerank");
+  });
+
+  it("should send the rerank request to the configured endpoint", async () => {
+    let capturedUrl: string | undefined;
+    let capturedBody: any;
+    let capturedHeaders: any;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      capturedUrl = url;
+      capturedBody = JSON.parse(init.body as string);
+      capturedHeaders = init.headers;
+      return new Response(
+        JSON.stringify({
+          results: [{ index: 1, relevance_score: 0.9 }],
+        }),
+        { status: 200 },
+      );
+    }) as typeof fetch;
+
+    const reranker = new HerokuRerank({ topN: 1 });
+    const results = await reranker.rerank(["a", "b"], "query");
+
+    assert.strictEqual(capturedUrl, "https://test-rerank.url/v1/rerank");
+    assert.deepStrictEqual(capturedBody, {
+      model: "test-rerank-model",
+      query: "query",
+      documents: ["a", "b"],
+      top_n: 1,
+    });
+    assert.strictEqual(capturedHeaders.Authorization, "Bearer test-rerank-key");
+    assert.deepStrictEqual(results, [{ index: 1, relevance_score: 0.9 }]);
+  });
+
+  it("should reorder documents and attach relevance scores", async () => {
+    globalThis.fetch = (async () =>
+      new Response(
+        JSON.stringify({
+          results: [
+            { index: 2, relevance_score: 0.8 },
+            { index: 0, relevance_score: 0.3 },
+          ],
+        }),
+        { status: 200 },
+      )) as typeof fetch;
+
+    const reranker = new HerokuRerank();
+    const docs = [
+      new Document({ pageContent: "Heroku", metadata: { source: "a" } }),
+      new Document({ pageContent: "Bananas", metadata: { source: "b" } }),
+      new Document({ pageContent: "Dynos", metadata: { source: "c" } }),
+    ];
+    const ranked = await reranker.compressDocuments(docs, "Heroku dynos");
+
+    assert.deepStrictEqual(
+      ranked.map((doc) => doc.pageContent),
+      ["Dynos", "Heroku"],
+    );
+    assert.deepStrictEqual(ranked[0].metadata, {
+      source: "c",
+      relevanceScore: 0.8,
+    });
+    // Input documents are left untouched
+    assert.deepStrictEqual(docs[2].metadata, { source: "c" });
+  });
+
+  it("should not call the API for an empty document list", async () => {
+    globalThis.fetch = (async () => {
+      throw new Error("fetch should not be called");
+    }) as typeof fetch;
+
+    const reranker = new HerokuRerank();
+    assert.deepStrictEqual(await reranker.compressDocuments([], "query"), []);
+  });
+
+  it("should cancel the request when the signal aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    globalThis.fetch = ((_url: string, init: RequestInit) => {
+      fetchSignal = init.signal ?? undefined;
+      return new Promise((_resolve, reject) => {
+        fetchSignal?.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError")),
+        );
+      });
+    }) as typeof fetch;
+    const controller = new AbortController();
+
+    const reranker = new HerokuRerank();
+    const pending = reranker.rerank(["a", "b"], "query", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 5);
+
+    await assert.rejects(pending);
+    // Aborting the fetch signal is what closes the underlying connection
+    assert.strictEqual(fetchSignal?.aborted, true);
+  });
+
+  it("should surface API failures as HerokuApiError", async () => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ message: "bad request" }), {
+        status: 400,
+        statusText: "Bad Request",
+      })) as typeof fetch;
+
+    const reranker = new HerokuRerank();
+    await assert.rejects(
+      () => reranker.rerank(["a"], "query"),
+      (error: unknown) =>
+        error instanceof HerokuApiError &&
+        error.status === 400 &&
+        /bad request/.test(error.message),
+    );
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { trace, SpanStatusCode, type Tracer } from "@opentelemetry/api";
+import { HumanMessage } from "@langchain/core/messages";
+import { ChatHeroku } from "../src/chat.js";
+import { HerokuAgent } from "../src/heroku-agent.js";
+import { HerokuEmbeddings } from "../src/embeddings.js";
+
+interface RecordedSpan {
+  name: string;
+  parent?: RecordedSpan;
+  attributes: Record<string, unknown>;
+  status?: { code: SpanStatusCode; message?: string };
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+function recordingTracer(spans: RecordedSpan[]): Tracer {
+  return {
+    startSpan(name: string, options: any = {}, context?: any) {
+      const recorded: RecordedSpan = {
+        name,
+        parent: context ? (trace.getSpan(context) as any)?.recorded : undefined,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: any = {
+        recorded,
+        setAttribute(key: string, value: unknown) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setStatus(status: RecordedSpan["status"]) {
+          recorded.status = status;
+          return span;
+        },
+        recordException(exception: unknown) {
+          recorded.exceptions.push(exception);
+        },
+        end() {
+          recorded.ended = true;
+        },
+        spanContext: () => ({ traceId: "t", spanId: name, traceFlags: 1 }),
+        isRecording: () => true,
+      };
+      return span;
+    },
+  } as unknown as Tracer;
+}
+
+function jsonResponse(body: unknown, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+describe("OpenTelemetry tracing", () => {
+  let originalEnv: Record<string, string | undefined>;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalEnv = {
+      INFERENCE_KEY: process.env.INFERENCE_KEY,
+      INFERENCE_URL: process.env.INFERENCE_URL,
+      INFERENCE_MODEL_ID: process.env.INFERENCE_MODEL_ID,
+    };
+    originalFetch = globalThis.fetch;
+    process.env.INFERENCE_KEY = "test-api-key";
+    process.env.INFERENCE_URL = "https://test-api.url";
+    process.env.INFERENCE_MODEL_ID = "test-model";
+  });
+
+  afterEach(() => {
+    process.env.INFERENCE_KEY = originalEnv.INFERENCE_KEY;
+    process.env.INFERENCE_URL = originalEnv.INFERENCE_URL;
+    process.env.INFERENCE_MODEL_ID = originalEnv.INFERENCE_MODEL_ID;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should record a chat span with attempt spans and usage", async () => {
+    let calls = 0;
+    globalThis.fetch = (async () => {
+      calls++;
+      if (calls === 1) {
+        return jsonResponse({ error: { message: "busy" } }, 503, {
+          "Retry-After": "0",
+        });
+      }
+      return jsonResponse({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: "test-model",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Hi" },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 },
+      });
+    }) as typeof fetch;
+
+    const spans: RecordedSpan[] = [];
+    const model = new ChatHeroku({
+      temperature: 0.2,
+      tracer: recordingTracer(spans),
+    });
+    await model.invoke([new HumanMessage("Hello")]);
+
+    const [operation, ...attempts] = spans;
+    assert.strictEqual(operation.name, "chat test-model");
+    assert.strictEqual(operation.attributes["gen_ai.operation.name"], "chat");
+    assert.strictEqual(operation.attributes["gen_ai.request.temperature"], 0.2);
+    assert.strictEqual(
+      operation.attributes["gen_ai.response.id"],
+      "chatcmpl-1",
+    );
+    assert.strictEqual(operation.attributes["gen_ai.usage.input_tokens"], 7);
+    assert.strictEqual(operation.attributes["gen_ai.usage.output_tokens"], 2);
+    assert.deepStrictEqual(
+      operation.attributes["gen_ai.response.finish_reasons"],
+      ["stop"],
+    );
+    assert.strictEqual(operation.attributes["heroku.request.retry_count"], 1);
+    assert.ok(operation.ended);
+
+    assert.strictEqual(attempts.length, 2);
+    assert.ok(attempts.every((span) => span.parent === operation));
+    assert.strictEqual(
+      attempts[0].attributes["http.response.status_code"],
+      503,
+    );
+    assert.strictEqual(attempts[0].status?.code, SpanStatusCode.ERROR);
+    assert.strictEqual(attempts[1].attributes["http.request.resend_count"], 1);
+    assert.strictEqual(
+      attempts[1].attributes["http.response.status_code"],
+      200,
+    );
+  });
+
+  it("should mark the operation span as failed", async () => {
+    globalThis.fetch = (async () =>
+      jsonResponse({ error: { message: "bad" } }, 400)) as typeof fetch;
+
+    const spans: RecordedSpan[] = [];
+    const model = new ChatHeroku({ tracer: recordingTracer(spans) });
+    await assert.rejects(model.invoke([new HumanMessage("Hello")]));
+
+    assert.strictEqual(spans[0].status?.code, SpanStatusCode.ERROR);
+    assert.strictEqual(
+      spans[0].attributes["error.type"],
+      "HerokuInvalidRequestError",
+    );
+    assert.ok(spans[0].ended);
+  });
+
+  it("should record agent tool events as child spans", async () => {
+    const events = [
+      {
+        object: "tool.completion",
+        choices: [
+          {
+            message: {
+              role: "tool",
+              name: "dyno_run_command",
+              tool_call_id: "call_1",
+              content: "ok",
+            },
+          },
+        ],
+      },
+      {
+        object: "tool.error",
+        id: "call_2",
+        name: "web_search",
+        error: "timed out",
+      },
+      {
+        object: "chat.completion",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Done." },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      },
+    ];
+    globalThis.fetch = (async () =>
+      new Response(
+        events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+          "data: [DONE]\n\n",
+        { status: 200, headers: { "Content-Type": "text/event-stream" } },
+      )) as typeof fetch;
+
+    const spans: RecordedSpan[] = [];
+    const agent = new HerokuAgent({
+      tracer: recordingTracer(spans),
+      tools: [
+        {
+          type: "heroku_tool",
+          name: "dyno_run_command",
+          runtime_params: {
+            target_app_name: "my-app",
+            tool_params: { cmd: "date", description: "Gets the date." },
+          },
+        },
+      ],
+    });
+    await agent.invoke([new HumanMessage("Run it")]);
+
+    const operation = spans.find((span) =>
+      span.name.startsWith("invoke_agent"),
+    );
+    assert.ok(operation?.ended);
+    assert.strictEqual(operation.attributes["gen_ai.usage.input_tokens"], 3);
+
+    const completed = spans.find(
+      (span) => span.name === "execute_tool dyno_run_command",
+    );
+    assert.strictEqual(completed?.parent, operation);
+    assert.strictEqual(completed.attributes["gen_ai.tool.call.id"], "call_1");
+    assert.strictEqual(completed.attributes["heroku.tool.type"], "heroku_tool");
+    assert.strictEqual(completed.status, undefined);
+
+    const failed = spans.find(
+      (span) => span.name === "execute_tool web_search",
+    );
+    assert.strictEqual(failed?.parent, operation);
+    assert.strictEqual(failed.status?.code, SpanStatusCode.ERROR);
+    assert.strictEqual(failed.attributes["error.type"], "tool_error");
+  });
+
+  it("should keep a tool span open until the tool returns", async () => {
+    const events = [
+      {
+        object: "chat.completion",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: "",
+              tool_calls: [
+                {
+                  id: "call_1",
+                  type: "function",
+                  function: { name: "dyno_run_command", arguments: "{}" },
+                },
+              ],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+      {
+        object: "tool.completion",
+        choices: [
+          {
+            message: {
+              role: "tool",
+              name: "dyno_run_command",
+              tool_call_id: "call_1",
+              content: "ok",
+            },
+          },
+        ],
+      },
+    ];
+    globalThis.fetch = (async () =>
+      new Response(
+        events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+          "data: [DONE]\n\n",
+        { status: 200, headers: { "Content-Type": "text/event-stream" } },
+      )) as typeof fetch;
+
+    const spans: RecordedSpan[] = [];
+    const agent = new HerokuAgent({ tracer: recordingTracer(spans) });
+    const toolSpan = () =>
+      spans.find((span) => span.name === "execute_tool dyno_run_command");
+    let openAtToolCall = false;
+    for await (const event of agent.streamAgentEvents("Run it")) {
+      if (event.event === "tool.call") {
+        openAtToolCall = toolSpan()?.ended === false;
+      }
+    }
+
+    assert.strictEqual(openAtToolCall, true);
+    assert.strictEqual(toolSpan()?.ended, true);
+    assert.strictEqual(
+      spans.filter((span) => span.name.startsWith("execute_tool")).length,
+      1,
+    );
+  });
+
+  it("should record embeddings spans with usage", async () => {
+    globalThis.fetch = (async () =>
+      jsonResponse({
+        object: "list",
+        model: "embed-model",
+        data: [{ object: "embedding", index: 0, embedding: [0.1, 0.2] }],
+        usage: { prompt_tokens: 4, total_tokens: 4 },
+      })) as typeof fetch;
+
+    const spans: RecordedSpan[] = [];
+    const embeddings = new HerokuEmbeddings({
+      model: "embed-model",
+      apiKey: "test-key",
+      apiUrl: "https://test-api.url",
+      tracer: recordingTracer(spans),
+    });
+    await embeddings.embedQuery("hello");
+
+    assert.strictEqual(spans[0].name, "embeddings embed-model");
+    assert.strictEqual(spans[0].attributes["gen_ai.usage.input_tokens"], 4);
+    assert.strictEqual(spans[1].parent, spans[0]);
+  });
+});